@@ -0,0 +1,39 @@
+'use client'
+
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { getStoredApiKey, setStoredApiKey } from '@/lib/api-client'
+import { Key } from 'lucide-react'
+import { useEffect, useState } from 'react'
+import { toast } from 'sonner'
+
+export function ApiKeyInput() {
+  const [apiKey, setApiKey] = useState('')
+
+  // The key lives in local storage, which is only available after mounting
+  useEffect(() => {
+    setApiKey(getStoredApiKey() ?? '')
+  }, [])
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault()
+    setStoredApiKey(apiKey.trim())
+    toast.success(apiKey.trim() ? 'API key saved' : 'API key removed')
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="flex items-center space-x-2">
+      <Input
+        type="password"
+        placeholder="API key"
+        aria-label="API key"
+        value={apiKey}
+        onChange={(event) => setApiKey(event.target.value)}
+        className="w-48"
+      />
+      <Button type="submit" variant="outline" size="icon" aria-label="Save API key">
+        <Key className="h-4 w-4" />
+      </Button>
+    </form>
+  )
+}
@@ -22,6 +22,7 @@ import {
 import { Input } from '@/components/ui/input'
 import { Separator } from '@/components/ui/separator'
 import { Textarea } from '@/components/ui/textarea'
+import { apiFetch } from '@/lib/api-client'
 
 const messageSchema = z.object({
   role: z.enum(['user', 'assistant', 'system']),
@@ -64,7 +65,7 @@ export function ConversationEmbeddingGenerator() {
     setResult(null)
 
     try {
-      const response = await fetch('/api/store-conversation-embedding', {
+      const response = await apiFetch('/api/store-conversation-embedding', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -1,9 +1,9 @@
 'use client'
 
-import { createClient } from '@supabase/supabase-js'
-import { useEffect, useState } from 'react'
+import { useCallback, useEffect, useState } from 'react'
 import { toast } from 'sonner'
 
+import { HistoryPagination } from '@/components/HistoryPagination'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Skeleton } from '@/components/ui/skeleton'
@@ -15,75 +15,34 @@ import {
   TableHeader,
   TableRow,
 } from '@/components/ui/table'
+import { apiFetch } from '@/lib/api-client'
+import type { ConversationSummary, Paginated } from '@/lib/history'
 import { MessageSquare, RefreshCw, Search, Trash2 } from 'lucide-react'
 
-// Get Supabase URL from environment variable
-const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
-const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY
-
-interface ConversationData {
-  id: string
-  conversation_id: string
-  title: string | null
-  summary: string | null
-  created_at: string
-  message_count: number
-}
+const pageSize = 20
 
 export function ConversationEmbeddingsHistory() {
-  const [conversations, setConversations] = useState<ConversationData[]>([])
+  const [conversations, setConversations] = useState<ConversationSummary[]>([])
+  const [page, setPage] = useState(1)
+  const [total, setTotal] = useState(0)
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
 
-  // Create Supabase client with improved error handling
-  const supabase = createClient(supabaseUrl || '', supabaseAnonKey || '')
-
-  const fetchConversations = async () => {
+  const fetchConversations = useCallback(async () => {
     setLoading(true)
     setError(null)
     try {
-      console.log('Fetching conversations with Supabase URL:', supabaseUrl)
-
-      if (!supabaseUrl || !supabaseAnonKey) {
-        throw new Error('Supabase credentials not found')
-      }
-
-      const { data: conversationsData, error } = await supabase
-        .from('conversation_history')
-        .select(
-          `
-          id, 
-          conversation_id,
-          title,
-          summary,
-          created_at,
-          messages:conversation_message(count)
-        `
-        )
-        .order('created_at', { ascending: false })
-
-      if (error) {
-        console.error('Supabase query error:', error)
-        throw error
-      }
+      const response = await apiFetch(`/api/conversations?page=${page}&pageSize=${pageSize}`)
+      const data = await response.json()
 
-      if (!conversationsData) {
-        throw new Error('No data returned from Supabase')
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load conversation embeddings')
       }
 
-      console.log('Conversations data:', conversationsData)
+      const { items, total }: Paginated<ConversationSummary> = data
 
-      // Transform data to include message_count
-      const transformedData: ConversationData[] = conversationsData.map((conversation) => ({
-        id: conversation.id,
-        conversation_id: conversation.conversation_id,
-        title: conversation.title,
-        summary: conversation.summary,
-        created_at: conversation.created_at,
-        message_count: conversation.messages[0]?.count || 0,
-      }))
-
-      setConversations(transformedData)
+      setConversations(items)
+      setTotal(total)
     } catch (error) {
       console.error('Error fetching conversation embeddings:', error)
       setError(error instanceof Error ? error.message : 'Failed to load conversation embeddings')
@@ -91,33 +50,40 @@ export function ConversationEmbeddingsHistory() {
     } finally {
       setLoading(false)
     }
-  }
+  }, [page])
 
   useEffect(() => {
     fetchConversations()
-  }, [])
+  }, [fetchConversations])
 
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleString()
   }
 
-  const handleDelete = async (id: string) => {
+  const handleDelete = async (id: number) => {
     if (!window.confirm('Are you sure you want to delete this conversation?')) {
       return
     }
 
     try {
-      const { error } = await supabase.from('conversation_history').delete().match({ id })
+      const response = await apiFetch(`/api/conversations/${id}`, { method: 'DELETE' })
+      const data = await response.json()
 
-      if (error) {
-        throw error
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to delete conversation')
       }
 
       toast.success('Conversation deleted successfully')
-      fetchConversations()
+
+      // Step back when the last page of the list is now empty
+      if (conversations.length === 1 && page > 1) {
+        setPage(page - 1)
+      } else {
+        fetchConversations()
+      }
     } catch (error) {
       console.error('Error deleting conversation:', error)
-      toast.error('Failed to delete conversation')
+      toast.error(error instanceof Error ? error.message : 'Failed to delete conversation')
     }
   }
 
@@ -147,9 +113,7 @@ export function ConversationEmbeddingsHistory() {
         ) : error ? (
           <div className="text-center py-10 text-red-500">
             <p>Error: {error}</p>
-            <p className="text-sm text-gray-500 mt-2">
-              Check your Supabase configuration and network connection.
-            </p>
+            <p className="text-sm text-gray-500 mt-2">Check your API key and network connection.</p>
           </div>
         ) : conversations.length === 0 ? (
           <div className="text-center py-10 text-gray-500">
@@ -171,7 +135,7 @@ export function ConversationEmbeddingsHistory() {
                 {conversations.map((conversation) => (
                   <TableRow key={conversation.id}>
                     <TableCell className="font-medium max-w-[200px] truncate">
-                      {conversation.conversation_id}
+                      {conversation.conversationId}
                     </TableCell>
                     <TableCell>
                       {conversation.title || 'Untitled'}
@@ -184,10 +148,10 @@ export function ConversationEmbeddingsHistory() {
                     <TableCell>
                       <div className="flex items-center">
                         <MessageSquare className="h-4 w-4 mr-2" />
-                        {conversation.message_count}
+                        {conversation.messageCount}
                       </div>
                     </TableCell>
-                    <TableCell>{formatDate(conversation.created_at)}</TableCell>
+                    <TableCell>{formatDate(conversation.createdAt)}</TableCell>
                     <TableCell className="text-right">
                       <div className="flex justify-end space-x-2">
                         <Button variant="ghost" size="icon" title="Search this conversation">
@@ -209,6 +173,16 @@ export function ConversationEmbeddingsHistory() {
             </Table>
           </div>
         )}
+
+        {total > pageSize && (
+          <HistoryPagination
+            page={page}
+            pageSize={pageSize}
+            total={total}
+            disabled={loading}
+            onPageChange={setPage}
+          />
+        )}
       </CardContent>
     </Card>
   )
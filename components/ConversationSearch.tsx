@@ -6,6 +6,7 @@ import { toast } from 'sonner'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Input } from '@/components/ui/input'
+import { apiFetch } from '@/lib/api-client'
 import { Bot, Frown, Loader, MessageSquare, Search, User } from 'lucide-react'
 
 interface MessageMatch {
@@ -44,7 +45,7 @@ export function ConversationSearch() {
     setIsSearching(true)
 
     try {
-      const response = await fetch('/api/search-conversation-embeddings', {
+      const response = await apiFetch('/api/search-conversation-embeddings', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -0,0 +1,133 @@
+'use client'
+
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Separator } from '@/components/ui/separator'
+import { Skeleton } from '@/components/ui/skeleton'
+import { apiFetch } from '@/lib/api-client'
+import { breadcrumbSeparator } from '@/lib/headings'
+import type { PageDetail } from '@/lib/history'
+import { useEffect, useState } from 'react'
+import { toast } from 'sonner'
+
+interface EmbeddingDetailDialogProps {
+  /** The page to show, the dialog is closed while `null` */
+  pageId: number | null
+  onClose: () => void
+}
+
+export function EmbeddingDetailDialog({ pageId, onClose }: EmbeddingDetailDialogProps) {
+  const [page, setPage] = useState<PageDetail | null>(null)
+  const [loading, setLoading] = useState(false)
+
+  useEffect(() => {
+    if (!pageId) {
+      setPage(null)
+      return
+    }
+
+    let cancelled = false
+
+    const fetchPage = async () => {
+      setLoading(true)
+      try {
+        const response = await apiFetch(`/api/pages/${pageId}`)
+        const data = await response.json()
+
+        if (!response.ok) {
+          throw new Error(data.error || 'Failed to load page details')
+        }
+
+        if (!cancelled) {
+          setPage(data)
+        }
+      } catch (error) {
+        console.error('Error fetching page:', error)
+        toast.error(error instanceof Error ? error.message : 'Failed to load page details')
+      } finally {
+        if (!cancelled) {
+          setLoading(false)
+        }
+      }
+    }
+
+    fetchPage()
+
+    return () => {
+      cancelled = true
+    }
+  }, [pageId])
+
+  return (
+    <Dialog open={pageId !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-3xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="break-all">{page?.path ?? 'Page details'}</DialogTitle>
+          <DialogDescription>
+            {page
+              ? `${page.type ?? 'unknown'} page from ${page.source ?? 'unknown source'}, ${
+                  page.sections.length
+                } sections`
+              : 'Loading page details'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading || !page ? (
+          <div className="space-y-2">
+            <Skeleton className="h-4 w-full" />
+            <Skeleton className="h-4 w-full" />
+            <Skeleton className="h-4 w-full" />
+          </div>
+        ) : (
+          <div className="space-y-4 text-sm">
+            <dl className="grid grid-cols-[max-content_1fr] gap-x-4 gap-y-1">
+              <dt className="text-muted-foreground">Parent page</dt>
+              <dd className="break-all">{page.parentPage?.path ?? 'None'}</dd>
+              <dt className="text-muted-foreground">Checksum</dt>
+              <dd className="font-mono text-xs break-all">{page.checksum ?? 'Not embedded yet'}</dd>
+            </dl>
+
+            <div>
+              <h3 className="font-medium mb-1">Meta</h3>
+              <pre className="rounded-md bg-muted p-2 text-xs overflow-x-auto">
+                {page.meta ? JSON.stringify(page.meta, null, 2) : 'None'}
+              </pre>
+            </div>
+
+            <Separator />
+
+            <div className="space-y-3">
+              <h3 className="font-medium">Sections</h3>
+              {page.sections.length === 0 ? (
+                <p className="text-muted-foreground">This page has no sections.</p>
+              ) : (
+                page.sections.map((section) => (
+                  <div key={section.id} className="rounded-md border p-3 space-y-2">
+                    <div className="flex flex-wrap items-baseline justify-between gap-2">
+                      <span className="font-medium">
+                        {section.headingPath.length > 0
+                          ? section.headingPath.join(breadcrumbSeparator)
+                          : section.heading ?? 'Untitled'}
+                        {section.chunkIndex > 0 && ` (part ${section.chunkIndex + 1})`}
+                      </span>
+                      <span className="text-xs text-muted-foreground">
+                        {section.slug && <span className="font-mono">#{section.slug} · </span>}
+                        {section.tokenCount ?? '?'} tokens
+                      </span>
+                    </div>
+                    <p className="whitespace-pre-wrap text-muted-foreground">{section.content}</p>
+                  </div>
+                ))
+              )}
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
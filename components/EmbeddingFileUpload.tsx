@@ -0,0 +1,356 @@
+'use client'
+
+import { CheckCircle2, FileText, Loader2, MinusCircle, UploadCloud, X, XCircle } from 'lucide-react'
+import { DragEvent, useRef, useState } from 'react'
+import { toast } from 'sonner'
+
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { apiFetch } from '@/lib/api-client'
+import type { ContentType } from '@/lib/sections'
+import { cn } from '@/lib/utils'
+
+type UploadStatus = 'pending' | 'uploading' | 'created' | 'updated' | 'skipped' | 'failed'
+
+interface UploadItem {
+  id: string
+  file: File
+  type: ContentType
+  path: string
+  status: UploadStatus
+  message?: string
+}
+
+// File extensions accepted by the upload and the content type they are ingested as
+const extensionTypes: Record<string, ContentType> = {
+  md: 'markdown',
+  mdx: 'markdown',
+  html: 'html',
+  htm: 'html',
+  txt: 'text',
+}
+
+const accept = Object.keys(extensionTypes)
+  .map((extension) => `.${extension}`)
+  .join(',')
+
+function splitFileName(name: string) {
+  const dot = name.lastIndexOf('.')
+  return dot > 0
+    ? { base: name.slice(0, dot), extension: name.slice(dot + 1).toLowerCase() }
+    : { base: name, extension: '' }
+}
+
+/**
+ * Derives a page path from a file name, e.g. `Getting Started.md` becomes `/getting-started`,
+ * nested under the parent path when one is set.
+ */
+function pathFromFileName(name: string, parentPath: string) {
+  const slug = splitFileName(name)
+    .base.trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9._-]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+
+  return `${parentPath.replace(/\/+$/, '')}/${slug}`
+}
+
+export function EmbeddingFileUpload() {
+  const [items, setItems] = useState<UploadItem[]>([])
+  const [parentPath, setParentPath] = useState('')
+  const [source, setSource] = useState('ui')
+  const [isDragging, setIsDragging] = useState(false)
+  const [isUploading, setIsUploading] = useState(false)
+  const inputRef = useRef<HTMLInputElement>(null)
+
+  function addFiles(files: FileList | File[]) {
+    const added: UploadItem[] = []
+    const rejected: string[] = []
+
+    for (const file of Array.from(files)) {
+      const type = extensionTypes[splitFileName(file.name).extension]
+
+      if (!type) {
+        rejected.push(file.name)
+        continue
+      }
+
+      added.push({
+        id: crypto.randomUUID(),
+        file,
+        type,
+        path: pathFromFileName(file.name, parentPath),
+        status: 'pending',
+      })
+    }
+
+    if (rejected.length > 0) {
+      toast.error(`Unsupported file type: ${rejected.join(', ')}`)
+    }
+
+    setItems((current) => [...current, ...added])
+  }
+
+  function updateItem(id: string, values: Partial<UploadItem>) {
+    setItems((current) => current.map((item) => (item.id === id ? { ...item, ...values } : item)))
+  }
+
+  function removeItem(id: string) {
+    setItems((current) => current.filter((item) => item.id !== id))
+  }
+
+  function onParentPathChange(value: string) {
+    // Move pending files under the new parent path, keeping paths that were edited by hand
+    setItems((current) =>
+      current.map((item) =>
+        item.status === 'pending' && item.path === pathFromFileName(item.file.name, parentPath)
+          ? { ...item, path: pathFromFileName(item.file.name, value) }
+          : item
+      )
+    )
+    setParentPath(value)
+  }
+
+  function onDrop(event: DragEvent<HTMLDivElement>) {
+    event.preventDefault()
+    setIsDragging(false)
+
+    if (!isUploading) {
+      addFiles(event.dataTransfer.files)
+    }
+  }
+
+  async function onUpload() {
+    const queue = items.filter((item) => item.status === 'pending' || item.status === 'failed')
+
+    if (queue.length === 0) {
+      return
+    }
+
+    setIsUploading(true)
+
+    let failed = 0
+
+    // Upload one file at a time to stay under the embedding provider's rate limits
+    for (const item of queue) {
+      updateItem(item.id, { status: 'uploading', message: undefined })
+
+      try {
+        const response = await apiFetch('/api/generate-embeddings', {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({
+            content: await item.file.text(),
+            path: item.path,
+            parentPath: parentPath || undefined,
+            type: item.type,
+            source,
+          }),
+        })
+
+        const data = await response.json()
+
+        if (!response.ok) {
+          throw new Error(data.error || 'Failed to generate embeddings')
+        }
+
+        updateItem(item.id, {
+          status: data.status,
+          message:
+            data.status === 'skipped'
+              ? 'Unchanged since it was last embedded'
+              : `${data.sections} sections (${data.unchanged ?? 0} unchanged, ${
+                  data.removed ?? 0
+                } removed)`,
+        })
+      } catch (error) {
+        console.error(`Error generating embeddings for ${item.file.name}:`, error)
+        failed++
+        updateItem(item.id, {
+          status: 'failed',
+          message: error instanceof Error ? error.message : 'Failed to generate embeddings',
+        })
+      }
+    }
+
+    setIsUploading(false)
+
+    if (failed > 0) {
+      toast.error(`${failed} of ${queue.length} files failed`)
+    } else {
+      toast.success(`Uploaded ${queue.length} files`)
+    }
+  }
+
+  const completed = items.filter((item) => ['created', 'updated', 'skipped'].includes(item.status))
+  const failedItems = items.filter((item) => item.status === 'failed')
+  const remaining = items.filter((item) => item.status === 'pending' || item.status === 'failed')
+  const processed = completed.length + failedItems.length
+
+  return (
+    <div className="space-y-6">
+      <div className="grid gap-4 sm:grid-cols-2">
+        <div className="space-y-2">
+          <Label htmlFor="upload-parent-path">Parent Path (Optional)</Label>
+          <Input
+            id="upload-parent-path"
+            placeholder="/docs"
+            value={parentPath}
+            disabled={isUploading}
+            onChange={(event) => onParentPathChange(event.target.value)}
+          />
+          <p className="text-sm text-muted-foreground">Shared by every uploaded file</p>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="upload-source">Source</Label>
+          <Input
+            id="upload-source"
+            placeholder="ui"
+            value={source}
+            disabled={isUploading}
+            onChange={(event) => setSource(event.target.value)}
+          />
+          <p className="text-sm text-muted-foreground">Where the files come from</p>
+        </div>
+      </div>
+
+      <div
+        role="button"
+        tabIndex={0}
+        onClick={() => inputRef.current?.click()}
+        onKeyDown={(event) => {
+          if (event.key === 'Enter' || event.key === ' ') {
+            inputRef.current?.click()
+          }
+        }}
+        onDragOver={(event) => {
+          event.preventDefault()
+          setIsDragging(true)
+        }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={onDrop}
+        className={cn(
+          'flex cursor-pointer flex-col items-center justify-center rounded-md border-2 border-dashed p-8 text-center transition-colors',
+          isDragging ? 'border-primary bg-muted' : 'border-muted-foreground/25'
+        )}
+      >
+        <UploadCloud className="mb-2 h-8 w-8 text-muted-foreground" />
+        <p className="font-medium">Drop files here or click to browse</p>
+        <p className="text-sm text-muted-foreground">
+          Markdown (.md, .mdx), HTML (.html) and text (.txt) files
+        </p>
+        <input
+          ref={inputRef}
+          type="file"
+          multiple
+          accept={accept}
+          className="hidden"
+          onChange={(event) => {
+            if (event.target.files) {
+              addFiles(event.target.files)
+            }
+            // Allow selecting the same files again
+            event.target.value = ''
+          }}
+        />
+      </div>
+
+      {items.length > 0 && (
+        <ul className="divide-y rounded-md border">
+          {items.map((item) => (
+            <li key={item.id} className="flex items-center gap-3 p-3">
+              <StatusIcon status={item.status} />
+              <div className="min-w-0 flex-1 space-y-1">
+                <div className="flex items-center gap-2 text-sm">
+                  <FileText className="h-4 w-4 shrink-0 text-muted-foreground" />
+                  <span className="truncate font-medium">{item.file.name}</span>
+                  <span className="text-muted-foreground">{item.type}</span>
+                </div>
+                <Input
+                  value={item.path}
+                  disabled={isUploading || !['pending', 'failed'].includes(item.status)}
+                  onChange={(event) => updateItem(item.id, { path: event.target.value })}
+                  className="h-8 font-mono text-xs"
+                  aria-label={`Path for ${item.file.name}`}
+                />
+                {item.message && (
+                  <p
+                    className={cn(
+                      'text-xs',
+                      item.status === 'failed' ? 'text-destructive' : 'text-muted-foreground'
+                    )}
+                  >
+                    {item.message}
+                  </p>
+                )}
+              </div>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                disabled={isUploading}
+                onClick={() => removeItem(item.id)}
+                aria-label={`Remove ${item.file.name}`}
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <Button
+        type="button"
+        onClick={onUpload}
+        disabled={isUploading || remaining.length === 0}
+        className="w-full"
+      >
+        {isUploading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+        {isUploading
+          ? `Generating... (${processed} of ${items.length})`
+          : remaining.length > 0
+          ? `Generate Embeddings for ${remaining.length} ${
+              remaining.length === 1 ? 'File' : 'Files'
+            }`
+          : 'Generate Embeddings'}
+      </Button>
+
+      {!isUploading && processed > 0 && (
+        <Alert
+          className={cn(
+            'mt-6',
+            failedItems.length > 0 ? 'bg-red-50 dark:bg-red-950' : 'bg-green-50 dark:bg-green-950'
+          )}
+        >
+          <AlertTitle>{failedItems.length > 0 ? 'Finished with errors' : 'Success'}</AlertTitle>
+          <AlertDescription>
+            {completed.length} succeeded (
+            {completed.filter((item) => item.status === 'skipped').length} unchanged),{' '}
+            {failedItems.length} failed
+            {failedItems.length > 0 && `: ${failedItems.map((item) => item.file.name).join(', ')}`}
+          </AlertDescription>
+        </Alert>
+      )}
+    </div>
+  )
+}
+
+function StatusIcon({ status }: { status: UploadStatus }) {
+  switch (status) {
+    case 'uploading':
+      return <Loader2 className="h-5 w-5 shrink-0 animate-spin text-muted-foreground" />
+    case 'created':
+    case 'updated':
+      return <CheckCircle2 className="h-5 w-5 shrink-0 text-green-600" />
+    case 'skipped':
+      return <MinusCircle className="h-5 w-5 shrink-0 text-muted-foreground" />
+    case 'failed':
+      return <XCircle className="h-5 w-5 shrink-0 text-destructive" />
+    default:
+      return <div className="h-5 w-5 shrink-0 rounded-full border-2 border-muted" />
+  }
+}
@@ -7,6 +7,8 @@ import { useForm } from 'react-hook-form'
 import { toast } from 'sonner'
 import * as z from 'zod'
 
+import { EmbeddingFileUpload } from '@/components/EmbeddingFileUpload'
+import { EmbeddingPreview } from '@/components/EmbeddingPreview'
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
@@ -23,6 +25,8 @@ import { Input } from '@/components/ui/input'
 import { Separator } from '@/components/ui/separator'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
 import { Textarea } from '@/components/ui/textarea'
+import { apiFetch } from '@/lib/api-client'
+import type { IngestionPreview } from '@/lib/preview'
 
 const formSchema = z.object({
   content: z.string().min(1, { message: 'Content is required' }),
@@ -35,9 +39,19 @@ const formSchema = z.object({
 
 type FormValues = z.infer<typeof formSchema>
 
+interface GenerateResult {
+  status: 'created' | 'updated' | 'skipped'
+  page: any
+  sections: number
+  unchanged?: number
+  removed?: number
+}
+
 export function EmbeddingGenerator() {
   const [isSubmitting, setIsSubmitting] = useState(false)
-  const [result, setResult] = useState<{ page: any; sections: number } | null>(null)
+  const [result, setResult] = useState<GenerateResult | null>(null)
+  const [isPreviewing, setIsPreviewing] = useState(false)
+  const [preview, setPreview] = useState<IngestionPreview | null>(null)
 
   const form = useForm<FormValues>({
     resolver: zodResolver(formSchema),
@@ -55,7 +69,7 @@ export function EmbeddingGenerator() {
     setResult(null)
 
     try {
-      const response = await fetch('/api/generate-embeddings', {
+      const response = await apiFetch('/api/generate-embeddings', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -70,7 +84,11 @@ export function EmbeddingGenerator() {
       }
 
       setResult(data)
-      toast.success(`Successfully generated embeddings for ${values.path}`)
+      if (data.status === 'skipped') {
+        toast.info(`${values.path} is unchanged, skipped embedding`)
+      } else {
+        toast.success(`Successfully generated embeddings for ${values.path}`)
+      }
     } catch (error) {
       console.error('Error generating embeddings:', error)
       toast.error(error instanceof Error ? error.message : 'Failed to generate embeddings')
@@ -79,6 +97,40 @@ export function EmbeddingGenerator() {
     }
   }
 
+  async function onPreview() {
+    // Only the content is needed to preview how it will be split
+    if (!(await form.trigger('content'))) {
+      return
+    }
+
+    setIsPreviewing(true)
+    setPreview(null)
+
+    try {
+      const { content, type } = form.getValues()
+      const response = await apiFetch('/api/preview-embeddings', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ content, type }),
+      })
+
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to preview embeddings')
+      }
+
+      setPreview(data)
+    } catch (error) {
+      console.error('Error previewing embeddings:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to preview embeddings')
+    } finally {
+      setIsPreviewing(false)
+    }
+  }
+
   return (
     <Card className="w-full max-w-4xl mx-auto">
       <CardHeader>
@@ -91,9 +143,7 @@ export function EmbeddingGenerator() {
         <Tabs defaultValue="manual" className="w-full">
           <TabsList className="grid w-full grid-cols-2">
             <TabsTrigger value="manual">Manual Entry</TabsTrigger>
-            <TabsTrigger value="file" disabled>
-              File Upload (Coming Soon)
-            </TabsTrigger>
+            <TabsTrigger value="file">File Upload</TabsTrigger>
           </TabsList>
 
           <TabsContent value="manual" className="mt-4">
@@ -177,13 +227,30 @@ export function EmbeddingGenerator() {
                   )}
                 />
 
-                <Button type="submit" disabled={isSubmitting} className="w-full">
-                  {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
-                  {isSubmitting ? 'Generating...' : 'Generate Embeddings'}
-                </Button>
+                <div className="flex gap-4">
+                  <Button
+                    type="button"
+                    variant="outline"
+                    onClick={onPreview}
+                    disabled={isPreviewing || isSubmitting}
+                  >
+                    {isPreviewing && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                    Preview
+                  </Button>
+                  <Button type="submit" disabled={isSubmitting} className="flex-1">
+                    {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                    {isSubmitting ? 'Generating...' : 'Generate Embeddings'}
+                  </Button>
+                </div>
+
+                {preview && <EmbeddingPreview preview={preview} />}
               </form>
             </Form>
           </TabsContent>
+
+          <TabsContent value="file" className="mt-4">
+            <EmbeddingFileUpload />
+          </TabsContent>
         </Tabs>
 
         {result && (
@@ -192,7 +259,11 @@ export function EmbeddingGenerator() {
             <Alert className="mt-6 bg-green-50 dark:bg-green-950">
               <AlertTitle>Success</AlertTitle>
               <AlertDescription>
-                Generated {result.sections} sections for {result.page.path}
+                {result.status === 'skipped'
+                  ? `${result.page.path} is unchanged since it was last embedded`
+                  : `Generated ${result.sections} sections for ${result.page.path} (${
+                      result.unchanged ?? 0
+                    } unchanged, ${result.removed ?? 0} removed)`}
               </AlertDescription>
             </Alert>
           </>
@@ -0,0 +1,76 @@
+'use client'
+
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { breadcrumbSeparator } from '@/lib/headings'
+import type { IngestionPreview } from '@/lib/preview'
+
+function formatCost(usd: number) {
+  return usd < 0.01 ? `$${usd.toFixed(6)}` : `$${usd.toFixed(2)}`
+}
+
+export function EmbeddingPreview({ preview }: { preview: IngestionPreview }) {
+  const { sections, sectionCount, chunkCount, tokenCount, estimatedCost } = preview
+  const oversized = sections.filter((section) => section.oversized).length
+  const dropped = sections.reduce((sum, section) => sum + section.droppedChunks, 0)
+
+  return (
+    <div className="space-y-4">
+      <Alert>
+        <AlertTitle>Preview</AlertTitle>
+        <AlertDescription>
+          {sectionCount} sections in {chunkCount} chunks, about {tokenCount.toLocaleString()}{' '}
+          tokens. Estimated cost with {estimatedCost.model}:{' '}
+          {estimatedCost.usd === null ? 'unknown' : formatCost(estimatedCost.usd)}.
+          {oversized > 0 && ` ${oversized} oversized sections will be split into chunks.`}
+          {dropped > 0 && ` ${dropped} chunks are too short to be returned by search.`}
+        </AlertDescription>
+      </Alert>
+
+      <div className="rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-[50px]">#</TableHead>
+              <TableHead>Heading</TableHead>
+              <TableHead>Slug</TableHead>
+              <TableHead className="text-right">Tokens</TableHead>
+              <TableHead className="text-right">Chunks</TableHead>
+              <TableHead>Notes</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {sections.map((section, i) => (
+              <TableRow key={i}>
+                <TableCell className="text-muted-foreground">{i + 1}</TableCell>
+                <TableCell className="font-medium">
+                  {section.headingPath.length > 0
+                    ? section.headingPath.join(breadcrumbSeparator)
+                    : 'Untitled'}
+                </TableCell>
+                <TableCell className="font-mono text-xs">{section.slug ?? '—'}</TableCell>
+                <TableCell className="text-right">{section.tokenCount.toLocaleString()}</TableCell>
+                <TableCell className="text-right">{section.chunks.length}</TableCell>
+                <TableCell className="text-sm text-muted-foreground">
+                  {[
+                    section.oversized && 'Oversized, split into chunks',
+                    section.droppedChunks > 0 && 'Too short to be returned by search',
+                  ]
+                    .filter(Boolean)
+                    .join('. ')}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  )
+}
@@ -1,5 +1,6 @@
 'use client'
 
+import { EmbeddingDetailDialog } from '@/components/EmbeddingDetailDialog'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Skeleton } from '@/components/ui/skeleton'
@@ -11,81 +12,83 @@ import {
   TableHeader,
   TableRow,
 } from '@/components/ui/table'
-import { createClient } from '@supabase/supabase-js'
+import { HistoryPagination } from '@/components/HistoryPagination'
+import { apiFetch } from '@/lib/api-client'
+import type { Paginated, PageSummary } from '@/lib/history'
 import { Eye, RefreshCw, Trash2 } from 'lucide-react'
-import { useEffect, useState } from 'react'
+import { useCallback, useEffect, useState } from 'react'
 import { toast } from 'sonner'
 
-// Get Supabase URL from environment variable
-const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
-const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY
-
-interface PageData {
-  id: string
-  path: string
-  type: string
-  source: string
-  created_at: string
-  updated_at: string
-  section_count: number
-}
+const pageSize = 20
 
 export function EmbeddingsHistory() {
-  const [pages, setPages] = useState<PageData[]>([])
+  const [pages, setPages] = useState<PageSummary[]>([])
+  const [page, setPage] = useState(1)
+  const [total, setTotal] = useState(0)
   const [loading, setLoading] = useState(true)
+  const [selectedPageId, setSelectedPageId] = useState<number | null>(null)
+  const [deletingPageId, setDeletingPageId] = useState<number | null>(null)
 
-  const supabase = createClient(supabaseUrl || '', supabaseAnonKey || '')
-
-  const fetchEmbeddings = async () => {
+  const fetchEmbeddings = useCallback(async () => {
     setLoading(true)
     try {
-      const { data: pagesData, error } = await supabase
-        .from('nods_page')
-        .select(
-          `
-          id, 
-          path, 
-          type, 
-          source, 
-          created_at, 
-          updated_at, 
-          sections:nods_page_section(count)
-        `
-        )
-        .order('updated_at', { ascending: false })
-
-      if (error) {
-        throw error
+      const response = await apiFetch(`/api/pages?page=${page}&pageSize=${pageSize}`)
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load embeddings history')
       }
 
-      // Transform data to include section_count
-      const transformedData: PageData[] = pagesData.map((page) => ({
-        id: page.id,
-        path: page.path,
-        type: page.type,
-        source: page.source,
-        created_at: page.created_at,
-        updated_at: page.updated_at,
-        section_count: page.sections[0]?.count || 0,
-      }))
-
-      setPages(transformedData)
+      const { items, total }: Paginated<PageSummary> = data
+
+      setPages(items)
+      setTotal(total)
     } catch (error) {
       console.error('Error fetching embeddings:', error)
-      toast.error('Failed to load embeddings history')
+      toast.error(error instanceof Error ? error.message : 'Failed to load embeddings history')
     } finally {
       setLoading(false)
     }
-  }
+  }, [page])
 
   useEffect(() => {
     fetchEmbeddings()
-  }, [])
+  }, [fetchEmbeddings])
 
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleString()
   }
 
+  const handleDelete = async ({ id, path }: PageSummary) => {
+    if (!window.confirm(`Are you sure you want to delete ${path} and its embeddings?`)) {
+      return
+    }
+
+    setDeletingPageId(id)
+    try {
+      const response = await apiFetch(`/api/pages/${id}`, { method: 'DELETE' })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to delete page')
+      }
+
+      toast.success(`Deleted ${path} and ${data.sections} sections`)
+
+      // Step back when the last page of the list is now empty
+      if (pages.length === 1 && page > 1) {
+        setPage(page - 1)
+      } else {
+        fetchEmbeddings()
+      }
+    } catch (error) {
+      console.error('Error deleting page:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to delete page')
+    } finally {
+      setDeletingPageId(null)
+    }
+  }
+
   return (
     <Card className="w-full">
       <CardHeader className="flex flex-row items-center justify-between">
@@ -130,14 +133,23 @@ export function EmbeddingsHistory() {
                   <TableRow key={page.id}>
                     <TableCell className="font-medium">{page.path}</TableCell>
                     <TableCell>{page.type}</TableCell>
-                    <TableCell>{page.section_count}</TableCell>
-                    <TableCell>{formatDate(page.updated_at)}</TableCell>
+                    <TableCell>{page.sectionCount}</TableCell>
+                    <TableCell>{formatDate(page.updatedAt)}</TableCell>
                     <TableCell className="text-right">
                       <div className="flex justify-end space-x-2">
-                        <Button variant="ghost" size="icon">
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => setSelectedPageId(page.id)}
+                        >
                           <Eye className="h-4 w-4" />
                         </Button>
-                        <Button variant="ghost" size="icon">
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => handleDelete(page)}
+                          disabled={deletingPageId === page.id}
+                        >
                           <Trash2 className="h-4 w-4 text-red-500" />
                         </Button>
                       </div>
@@ -148,7 +160,19 @@ export function EmbeddingsHistory() {
             </Table>
           </div>
         )}
+
+        {total > pageSize && (
+          <HistoryPagination
+            page={page}
+            pageSize={pageSize}
+            total={total}
+            disabled={loading}
+            onPageChange={setPage}
+          />
+        )}
       </CardContent>
+
+      <EmbeddingDetailDialog pageId={selectedPageId} onClose={() => setSelectedPageId(null)} />
     </Card>
   )
 }
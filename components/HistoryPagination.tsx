@@ -0,0 +1,50 @@
+'use client'
+
+import { Button } from '@/components/ui/button'
+import { ChevronLeft, ChevronRight } from 'lucide-react'
+
+interface HistoryPaginationProps {
+  page: number
+  pageSize: number
+  total: number
+  disabled?: boolean
+  onPageChange: (page: number) => void
+}
+
+export function HistoryPagination({
+  page,
+  pageSize,
+  total,
+  disabled,
+  onPageChange,
+}: HistoryPaginationProps) {
+  const pageCount = Math.max(1, Math.ceil(total / pageSize))
+
+  return (
+    <div className="flex items-center justify-between pt-4 text-sm text-muted-foreground">
+      <span>
+        Page {page} of {pageCount} ({total} total)
+      </span>
+      <div className="flex space-x-2">
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => onPageChange(page - 1)}
+          disabled={disabled || page <= 1}
+        >
+          <ChevronLeft className="h-4 w-4 mr-1" />
+          Previous
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => onPageChange(page + 1)}
+          disabled={disabled || page >= pageCount}
+        >
+          Next
+          <ChevronRight className="h-4 w-4 ml-1" />
+        </Button>
+      </div>
+    </div>
+  )
+}
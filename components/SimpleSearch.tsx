@@ -2,26 +2,190 @@
 
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
+import {
+  AnswerSourceRef,
+  answerSourcesHeader,
+  decodeAnswerSources,
+  getSourceLabel,
+} from '@/lib/answer'
+import { apiFetch, getAuthorizationHeaders } from '@/lib/api-client'
+import type { SearchResult } from '@/lib/search'
 import { useCompletion } from 'ai/react'
-import { Frown, Loader, Wand } from 'lucide-react'
+import { FileText, Frown, Loader, MessageSquare, SlidersHorizontal, Wand } from 'lucide-react'
 import * as React from 'react'
 
+interface FilterValues {
+  source: string
+  type: string
+  pathPrefix: string
+  parentPageId: string
+  meta: string
+}
+
+const emptyFilters: FilterValues = {
+  source: '',
+  type: '',
+  pathPrefix: '',
+  parentPageId: '',
+  meta: '',
+}
+
+/**
+ * Turns the filter inputs into the `filters` of a search request, leaving out empty ones.
+ */
+function toSearchFilters(values: FilterValues) {
+  let meta: Record<string, any> | undefined
+
+  if (values.meta.trim()) {
+    try {
+      meta = JSON.parse(values.meta)
+    } catch {
+      throw new Error('The meta filter must be JSON, e.g. {"tags": ["billing"]}')
+    }
+  }
+
+  return {
+    source: values.source.trim() || undefined,
+    type: values.type || undefined,
+    path_prefix: values.pathPrefix.trim() || undefined,
+    parent_page_id: values.parentPageId ? Number(values.parentPageId) : undefined,
+    meta,
+  }
+}
+
+// Matches citations like [1] in an answer
+const citationPattern = /\[(\d+)\]/g
+
+/**
+ * Renders an answer with its `[n]` citations linked to the sources they refer to.
+ */
+function CitedAnswer({ answer, sources }: { answer: string; sources: AnswerSourceRef[] }) {
+  const parts = answer.split(citationPattern)
+
+  return (
+    <p className="whitespace-pre-wrap text-slate-700 dark:text-slate-300">
+      {parts.map((part, i) => {
+        // Odd parts are the numbers captured from citations
+        if (i % 2 === 0) {
+          return part
+        }
+
+        const source = sources.find((source) => source.number === Number(part))
+
+        return source ? (
+          <a
+            key={i}
+            href={source.url}
+            title={source.url}
+            className="text-xs align-super text-blue-600 dark:text-blue-400 hover:underline"
+          >
+            [{part}]
+          </a>
+        ) : (
+          `[${part}]`
+        )
+      })}
+    </p>
+  )
+}
+
 export function SimpleSearch() {
   const [query, setQuery] = React.useState<string>('')
   const [matchCount, setMatchCount] = React.useState<number>(10)
-  const { complete, completion, isLoading, error } = useCompletion({
+  const [mode, setMode] = React.useState<string>('hybrid')
+  const [showFilters, setShowFilters] = React.useState(false)
+  const [filterValues, setFilterValues] = React.useState<FilterValues>(emptyFilters)
+  const [isLoading, setIsLoading] = React.useState(false)
+  const [results, setResults] = React.useState<SearchResult[] | null>(null)
+  const [error, setError] = React.useState<string | null>(null)
+  const [sources, setSources] = React.useState<AnswerSourceRef[]>([])
+
+  const {
+    complete,
+    completion,
+    isLoading: isAnswering,
+    setCompletion,
+  } = useCompletion({
     api: '/api/vector-search',
+    async onResponse(response) {
+      if (!response.ok) {
+        const data = await response.json()
+        throw new Error(data.error || 'Answer failed')
+      }
+
+      setSources(decodeAnswerSources(response.headers.get(answerSourcesHeader)))
+    },
+    onError(error) {
+      console.error('Error answering:', error)
+      setError(error.message)
+    },
   })
 
-  const handleSubmit: React.FormEventHandler<HTMLFormElement> = (e) => {
+  // Ask streams an answer citing the matched sections
+  const handleSubmit: React.FormEventHandler<HTMLFormElement> = async (e) => {
     e.preventDefault()
-    complete(query, {
+    setError(null)
+    setResults(null)
+    setSources([])
+
+    let filters
+
+    try {
+      filters = toSearchFilters(filterValues)
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Invalid filters')
+      return
+    }
+
+    await complete(query, {
+      headers: getAuthorizationHeaders(),
       body: {
         match_count: matchCount,
+        mode,
+        filters,
+        format: 'answer',
       },
     })
   }
 
+  // Search lists the matched sections without generating an answer
+  const handleSearch = async () => {
+    setIsLoading(true)
+    setError(null)
+    setResults(null)
+    setCompletion('')
+    setSources([])
+
+    try {
+      const response = await apiFetch('/api/vector-search', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          prompt: query,
+          match_count: matchCount,
+          mode,
+          filters: toSearchFilters(filterValues),
+          format: 'results',
+        }),
+      })
+
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Search failed')
+      }
+
+      setResults(data.results)
+    } catch (error) {
+      console.error('Error searching:', error)
+      setError(error instanceof Error ? error.message : 'Search failed')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
   return (
     <div className="w-full max-w-2xl mx-auto">
       <form onSubmit={handleSubmit} className="space-y-4">
@@ -43,11 +207,121 @@ export function SimpleSearch() {
               className="w-20"
             />
           </div>
-          <Button type="submit" disabled={isLoading || !query}>
+          <select
+            aria-label="Search mode"
+            value={mode}
+            onChange={(e) => setMode(e.target.value)}
+            className="px-3 py-2 rounded-md border border-input bg-background text-sm"
+          >
+            <option value="hybrid">Hybrid</option>
+            <option value="vector">Vector</option>
+            <option value="keyword">Keyword</option>
+          </select>
+          <Button type="submit" disabled={isLoading || isAnswering || !query}>
+            Ask
+          </Button>
+          <Button
+            type="button"
+            variant="outline"
+            onClick={handleSearch}
+            disabled={isLoading || isAnswering || !query}
+          >
             Search
           </Button>
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            aria-label="Filters"
+            aria-expanded={showFilters}
+            onClick={() => setShowFilters(!showFilters)}
+          >
+            <SlidersHorizontal className="h-4 w-4" />
+          </Button>
         </div>
 
+        {showFilters && (
+          <div className="grid grid-cols-2 gap-2 p-4 rounded-md border border-slate-200 dark:border-slate-700">
+            <Input
+              placeholder="Source"
+              value={filterValues.source}
+              onChange={(e) => setFilterValues({ ...filterValues, source: e.target.value })}
+            />
+            <select
+              aria-label="Type"
+              value={filterValues.type}
+              onChange={(e) => setFilterValues({ ...filterValues, type: e.target.value })}
+              className="px-3 py-2 rounded-md border border-input bg-background text-sm"
+            >
+              <option value="">Any type</option>
+              <option value="markdown">Markdown</option>
+              <option value="html">HTML</option>
+              <option value="text">Text</option>
+            </select>
+            <Input
+              placeholder="Path prefix, e.g. docs/billing/"
+              value={filterValues.pathPrefix}
+              onChange={(e) => setFilterValues({ ...filterValues, pathPrefix: e.target.value })}
+            />
+            <Input
+              type="number"
+              min="1"
+              placeholder="Under page ID"
+              value={filterValues.parentPageId}
+              onChange={(e) => setFilterValues({ ...filterValues, parentPageId: e.target.value })}
+            />
+            <Input
+              placeholder='Meta contains, e.g. {"tags": ["billing"]}'
+              value={filterValues.meta}
+              onChange={(e) => setFilterValues({ ...filterValues, meta: e.target.value })}
+              className="col-span-2 font-mono"
+            />
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => setFilterValues(emptyFilters)}
+              className="col-span-2"
+            >
+              Clear filters
+            </Button>
+          </div>
+        )}
+
+        {isAnswering && !completion && (
+          <div className="flex items-center gap-2 text-slate-700 dark:text-slate-300">
+            <Loader className="animate-spin h-4 w-4" />
+            <p>Thinking...</p>
+          </div>
+        )}
+
+        {completion && !error && (
+          <div className="space-y-3">
+            <div className="flex items-center gap-2">
+              <MessageSquare className="h-4 w-4 text-green-500" />
+              <h3 className="font-semibold">Answer</h3>
+            </div>
+            <CitedAnswer answer={completion} sources={sources} />
+            {sources.length > 0 && (
+              <div className="pt-3 border-t border-slate-200 dark:border-slate-700">
+                <h4 className="text-sm font-semibold mb-2">Sources</h4>
+                <ol className="space-y-1 text-sm">
+                  {sources.map((source) => (
+                    <li key={source.id} className="flex gap-2">
+                      <span className="text-slate-500">[{source.number}]</span>
+                      <a
+                        href={source.url}
+                        className="font-mono text-xs self-center hover:underline"
+                      >
+                        {source.url}
+                      </a>
+                    </li>
+                  ))}
+                </ol>
+              </div>
+            )}
+          </div>
+        )}
+
         {isLoading && (
           <div className="flex items-center gap-2 text-slate-700 dark:text-slate-300">
             <Loader className="animate-spin h-4 w-4" />
@@ -58,17 +332,46 @@ export function SimpleSearch() {
         {error && (
           <div className="flex items-center gap-2 text-red-500">
             <Frown className="h-4 w-4" />
-            <p>Search failed. Please try again.</p>
+            <p>{error}</p>
           </div>
         )}
 
-        {completion && !error && (
-          <div className="p-4 rounded-md border border-slate-200 dark:border-slate-700">
-            <div className="flex items-center gap-2 mb-2">
+        {results && !error && (
+          <div className="space-y-2">
+            <div className="flex items-center gap-2">
               <Wand className="h-4 w-4 text-green-500" />
-              <h3 className="font-semibold">Result:</h3>
+              <h3 className="font-semibold">
+                {results.length === 0 ? 'No matching sections found' : `${results.length} results`}
+              </h3>
             </div>
-            <p className="text-slate-700 dark:text-slate-300">{completion}</p>
+            <ol className="space-y-3">
+              {results.map((result, i) => (
+                <li
+                  key={result.id}
+                  className="p-4 rounded-md border border-slate-200 dark:border-slate-700"
+                >
+                  <div className="flex items-start justify-between gap-4">
+                    <a href={result.url} className="font-medium hover:underline">
+                      <span className="text-slate-500 mr-2">{i + 1}.</span>
+                      {getSourceLabel(result)}
+                    </a>
+                    <span className="shrink-0 text-xs text-slate-500">
+                      {result.similarity !== null
+                        ? `${(result.similarity * 100).toFixed(1)}% match`
+                        : 'keyword match'}
+                    </span>
+                  </div>
+                  <div className="flex items-center gap-1 mt-1 text-xs text-slate-500">
+                    <FileText className="h-3 w-3" />
+                    <span className="font-mono">{result.url}</span>
+                    {result.tokenCount !== null && <span>· {result.tokenCount} tokens</span>}
+                  </div>
+                  <p className="mt-2 text-sm text-slate-700 dark:text-slate-300 line-clamp-3">
+                    {result.content}
+                  </p>
+                </li>
+              ))}
+            </ol>
           </div>
         )}
       </form>
@@ -0,0 +1,89 @@
+import { breadcrumbSeparator } from '@/lib/headings'
+import type { AnswerSource } from '@/lib/search'
+import { codeBlock, oneLine } from 'common-tags'
+import type { ChatCompletionRequestMessage } from 'openai-edge'
+
+/**
+ * Sets the tone and scope of answers. Citation instructions are always added to the question,
+ * so a custom `ANSWER_SYSTEM_PROMPT` only needs to describe the assistant.
+ */
+export const defaultAnswerSystemPrompt = oneLine`
+  You are a helpful assistant that answers questions about the documentation in this
+  knowledge base. Answer using only the sources you are given, in markdown. If you are
+  unsure and the answer is not explicitly written in the sources, say
+  "Sorry, I don't know how to help with that."
+`
+
+export const answerSystemPrompt = process.env.ANSWER_SYSTEM_PROMPT || defaultAnswerSystemPrompt
+
+export const answerModel = process.env.ANSWER_MODEL || 'gpt-3.5-turbo'
+
+/** Response header listing the sources of a streamed answer, see `encodeAnswerSources` */
+export const answerSourcesHeader = 'X-Answer-Sources'
+
+/** A source as listed in the `X-Answer-Sources` header */
+export type AnswerSourceRef = Pick<AnswerSource, 'number' | 'id' | 'url'>
+
+/**
+ * Builds the chat messages for an answer, listing each section as a numbered source the
+ * model cites as `[n]`.
+ */
+export function buildAnswerMessages(
+  query: string,
+  sections: { source: AnswerSource; content: string }[]
+): ChatCompletionRequestMessage[] {
+  const sourcesText = sections
+    .map(({ source, content }) => `[${source.number}] ${source.url}\n${content}`)
+    .join('\n---\n')
+
+  return [
+    { role: 'system', content: answerSystemPrompt },
+    {
+      role: 'user',
+      content: codeBlock`
+        Sources:
+        ${sourcesText}
+
+        Question: """
+        ${query}
+        """
+
+        Answer as markdown (including related code snippets if available). Cite the sources
+        you use by their number in square brackets, like [1] or [2][3], right after the
+        statements they support. Don't cite sources that aren't listed.
+      `,
+    },
+  ]
+}
+
+/**
+ * Sources go in a header so the answer itself can stream as plain text. Headers are limited
+ * in size, so each source is only sent with its number, section id and url. The JSON is URI
+ * encoded, as header values must be ASCII.
+ */
+export function encodeAnswerSources(sources: AnswerSource[]) {
+  const refs: AnswerSourceRef[] = sources.map(({ number, id, url }) => ({ number, id, url }))
+  return encodeURIComponent(JSON.stringify(refs))
+}
+
+export function decodeAnswerSources(value: string | null): AnswerSourceRef[] {
+  if (!value) {
+    return []
+  }
+
+  try {
+    return JSON.parse(decodeURIComponent(value))
+  } catch (err) {
+    console.error('Failed to decode answer sources', err)
+    return []
+  }
+}
+
+/**
+ * Labels a source with its breadcrumb, falling back to its heading or page path.
+ */
+export function getSourceLabel(source: Pick<AnswerSource, 'headingPath' | 'heading' | 'path'>) {
+  return source.headingPath.length > 0
+    ? source.headingPath.join(breadcrumbSeparator)
+    : source.heading ?? source.path
+}
@@ -0,0 +1,36 @@
+// Where the browser keeps the API key entered in the header of the app
+const apiKeyStorageKey = 'api-key'
+
+export function getStoredApiKey() {
+  return typeof window === 'undefined' ? null : window.localStorage.getItem(apiKeyStorageKey)
+}
+
+export function setStoredApiKey(apiKey: string) {
+  if (apiKey) {
+    window.localStorage.setItem(apiKeyStorageKey, apiKey)
+  } else {
+    window.localStorage.removeItem(apiKeyStorageKey)
+  }
+}
+
+/**
+ * Returns the headers that authorize a request to the app's API routes with the stored key.
+ */
+export function getAuthorizationHeaders(): Record<string, string> {
+  const apiKey = getStoredApiKey()
+
+  return apiKey ? { Authorization: `Bearer ${apiKey}` } : {}
+}
+
+/**
+ * Calls one of the app's API routes, authorized with the stored API key.
+ */
+export function apiFetch(input: string, init: RequestInit = {}) {
+  const headers = new Headers(init.headers)
+
+  for (const [name, value] of Object.entries(getAuthorizationHeaders())) {
+    headers.set(name, value)
+  }
+
+  return fetch(input, { ...init, headers })
+}
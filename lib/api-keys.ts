@@ -0,0 +1,224 @@
+import { generateChecksum } from '@/lib/checksum'
+import { ApplicationError, UserError } from '@/lib/errors'
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+/**
+ * What an API key may do. `admin` grants every other scope, and managing API keys.
+ */
+export const apiKeyScopes = [
+  'ingest',
+  'search',
+  'conversations:read',
+  'conversations:write',
+  'admin',
+] as const
+
+export type ApiKeyScope = (typeof apiKeyScopes)[number]
+
+export interface ApiKey {
+  id: number
+  name: string
+  /** The first characters of the key, to tell keys apart without storing them */
+  keyPrefix: string
+  scopes: ApiKeyScope[]
+  /** Overrides `RATE_LIMIT_REQUESTS_PER_MINUTE` when set */
+  requestsPerMinute: number | null
+  /** Overrides `RATE_LIMIT_DAILY_TOKENS` when set */
+  dailyTokenQuota: number | null
+  expiresAt: string | null
+  lastUsedAt: string | null
+  revokedAt: string | null
+  createdAt: string
+}
+
+export interface CreateApiKeyOptions {
+  name: string
+  scopes: ApiKeyScope[]
+  requestsPerMinute?: number | null
+  dailyTokenQuota?: number | null
+  expiresAt?: string | null
+}
+
+const keyPrefix = 'nods_'
+const keyPrefixLength = keyPrefix.length + 8
+
+// Refresh `last_used_at` at most once a minute per key, so busy keys don't write on every request
+const lastUsedResolutionMs = 60 * 1000
+
+const apiKeyColumns =
+  'id, name, key_prefix, scopes, requests_per_minute, daily_token_quota, expires_at, last_used_at, revoked_at, created_at'
+
+/**
+ * Validates the options of a new API key, as sent to the management route.
+ */
+export function parseCreateApiKeyOptions(requestData: Record<string, any>): CreateApiKeyOptions {
+  const {
+    name,
+    scopes,
+    requestsPerMinute = null,
+    dailyTokenQuota = null,
+    expiresAt = null,
+  } = requestData
+
+  if (typeof name !== 'string' || !name.trim()) {
+    throw new UserError('Missing name in request data')
+  }
+
+  if (
+    !Array.isArray(scopes) ||
+    scopes.length === 0 ||
+    !scopes.every((scope) => apiKeyScopes.includes(scope))
+  ) {
+    throw new UserError('scopes must be a non-empty array of known scopes', {
+      scopes,
+      apiKeyScopes,
+    })
+  }
+
+  for (const [field, value] of Object.entries({ requestsPerMinute, dailyTokenQuota })) {
+    if (value !== null && (!Number.isInteger(value) || value < 0)) {
+      throw new UserError(`${field} must be a non-negative integer`, { [field]: value })
+    }
+  }
+
+  if (expiresAt !== null && (typeof expiresAt !== 'string' || isNaN(Date.parse(expiresAt)))) {
+    throw new UserError('expiresAt must be an ISO 8601 date', { expiresAt })
+  }
+
+  return {
+    name: name.trim(),
+    scopes: Array.from(new Set(scopes)),
+    requestsPerMinute,
+    dailyTokenQuota,
+    expiresAt,
+  }
+}
+
+/**
+ * Creates an API key. The key is only returned here, the database keeps its hash.
+ */
+export async function createApiKey(
+  supabaseClient: SupabaseClient,
+  {
+    name,
+    scopes,
+    requestsPerMinute = null,
+    dailyTokenQuota = null,
+    expiresAt = null,
+  }: CreateApiKeyOptions
+): Promise<{ apiKey: ApiKey; key: string }> {
+  const randomBytes = crypto.getRandomValues(new Uint8Array(32))
+  const key = keyPrefix + Array.from(randomBytes, (b) => b.toString(16).padStart(2, '0')).join('')
+
+  const { error, data } = await supabaseClient
+    .from('api_key')
+    .insert({
+      name,
+      key_hash: await generateChecksum(key),
+      key_prefix: key.slice(0, keyPrefixLength),
+      scopes,
+      requests_per_minute: requestsPerMinute,
+      daily_token_quota: dailyTokenQuota,
+      expires_at: expiresAt,
+    })
+    .select(apiKeyColumns)
+    .single()
+
+  if (error) {
+    throw new ApplicationError('Failed to create API key', error)
+  }
+
+  return { apiKey: toApiKey(data), key }
+}
+
+/**
+ * Lists API keys, most recently created first. Revoked keys are included.
+ */
+export async function listApiKeys(supabaseClient: SupabaseClient): Promise<ApiKey[]> {
+  const { error, data } = await supabaseClient
+    .from('api_key')
+    .select(apiKeyColumns)
+    .order('created_at', { ascending: false })
+
+  if (error) {
+    throw new ApplicationError('Failed to list API keys', error)
+  }
+
+  return data.map(toApiKey)
+}
+
+/**
+ * Revokes an API key. Revoked keys are kept so their use can still be audited.
+ */
+export async function revokeApiKey(supabaseClient: SupabaseClient, id: number): Promise<ApiKey> {
+  const { error, data } = await supabaseClient
+    .from('api_key')
+    .update({ revoked_at: new Date().toISOString() })
+    .filter('id', 'eq', id)
+    .is('revoked_at', null)
+    .select(apiKeyColumns)
+    .maybeSingle()
+
+  if (error) {
+    throw new ApplicationError('Failed to revoke API key', error)
+  }
+
+  if (!data) {
+    throw new UserError('API key not found or already revoked', { id }, 404)
+  }
+
+  return toApiKey(data)
+}
+
+/**
+ * Looks up an unrevoked API key by its plaintext value.
+ */
+export async function findApiKey(supabaseClient: SupabaseClient, key: string) {
+  const { error, data } = await supabaseClient
+    .from('api_key')
+    .select(apiKeyColumns)
+    .filter('key_hash', 'eq', await generateChecksum(key))
+    .is('revoked_at', null)
+    .maybeSingle()
+
+  if (error) {
+    throw new ApplicationError('Failed to look up API key', error)
+  }
+
+  return data ? toApiKey(data) : null
+}
+
+/**
+ * Records that an API key was used. Failures are logged rather than failing the request.
+ */
+export async function touchApiKey(supabaseClient: SupabaseClient, apiKey: ApiKey) {
+  const now = Date.now()
+
+  if (apiKey.lastUsedAt && now - Date.parse(apiKey.lastUsedAt) < lastUsedResolutionMs) {
+    return
+  }
+
+  const { error } = await supabaseClient
+    .from('api_key')
+    .update({ last_used_at: new Date(now).toISOString() })
+    .filter('id', 'eq', apiKey.id)
+
+  if (error) {
+    console.error(`Failed to record use of API key ${apiKey.id}`, error)
+  }
+}
+
+function toApiKey(row: Record<string, any>): ApiKey {
+  return {
+    id: row.id,
+    name: row.name,
+    keyPrefix: row.key_prefix,
+    scopes: row.scopes,
+    requestsPerMinute: row.requests_per_minute,
+    dailyTokenQuota: row.daily_token_quota,
+    expiresAt: row.expires_at,
+    lastUsedAt: row.last_used_at,
+    revokedAt: row.revoked_at,
+    createdAt: row.created_at,
+  }
+}
@@ -0,0 +1,75 @@
+import { ApiKeyScope, findApiKey, touchApiKey } from '@/lib/api-keys'
+import { generateChecksum } from '@/lib/checksum'
+import { UserError } from '@/lib/errors'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { NextRequest } from 'next/server'
+
+const adminApiKey = process.env.ADMIN_API_KEY
+
+export interface AuthorizedKey {
+  /** `null` for the `ADMIN_API_KEY`, which isn't stored */
+  id: number | null
+  name: string
+  scopes: ApiKeyScope[]
+  requestsPerMinute: number | null
+  dailyTokenQuota: number | null
+}
+
+/**
+ * Reads the API key sent as `Authorization: Bearer <key>`.
+ */
+export function getApiKey(req: NextRequest) {
+  const [scheme, token] = (req.headers.get('authorization') ?? '').split(' ')
+
+  return scheme?.toLowerCase() === 'bearer' && token ? token : null
+}
+
+/**
+ * Checks that a request carries an API key with the given scope, or the `admin` scope.
+ * Responds with a 401 for a missing, unknown, revoked or expired key and with a 403 for a
+ * key without the scope.
+ *
+ * `ADMIN_API_KEY`, when set, is accepted as an admin key so the first keys can be created.
+ */
+export async function authorizeRequest(
+  req: NextRequest,
+  supabaseClient: SupabaseClient,
+  scope: ApiKeyScope
+): Promise<AuthorizedKey> {
+  const key = getApiKey(req)
+
+  if (!key) {
+    throw new UserError('Missing API key', {}, 401)
+  }
+
+  // Compare digests rather than the keys themselves, so the time taken doesn't leak the key
+  if (adminApiKey && (await generateChecksum(key)) === (await generateChecksum(adminApiKey))) {
+    return {
+      id: null,
+      name: 'ADMIN_API_KEY',
+      scopes: ['admin'],
+      requestsPerMinute: null,
+      dailyTokenQuota: null,
+    }
+  }
+
+  const apiKey = await findApiKey(supabaseClient, key)
+
+  if (!apiKey) {
+    throw new UserError('Invalid API key', {}, 401)
+  }
+
+  if (apiKey.expiresAt && Date.parse(apiKey.expiresAt) <= Date.now()) {
+    throw new UserError('API key has expired', { expiresAt: apiKey.expiresAt }, 401)
+  }
+
+  if (!apiKey.scopes.includes(scope) && !apiKey.scopes.includes('admin')) {
+    throw new UserError(`API key is missing the '${scope}' scope`, { scopes: apiKey.scopes }, 403)
+  }
+
+  await touchApiKey(supabaseClient, apiKey)
+
+  const { id, name, scopes, requestsPerMinute, dailyTokenQuota } = apiKey
+
+  return { id, name, scopes, requestsPerMinute, dailyTokenQuota }
+}
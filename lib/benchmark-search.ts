@@ -0,0 +1,228 @@
+import { getEmbeddingProvider } from '@/lib/embedding-providers'
+import { createEmbeddings } from '@/lib/embeddings'
+import { ApplicationError } from '@/lib/errors'
+import { minSearchableContentLength } from '@/lib/preview'
+import { createClient, SupabaseClient } from '@supabase/supabase-js'
+import { config } from 'dotenv'
+import yargs from 'yargs'
+import { hideBin } from 'yargs/helpers'
+
+interface Options {
+  queries: string[]
+  sample: number
+  matchCount: number
+  efSearch: number[]
+}
+
+interface Measurement {
+  latencyMs: number
+  ids: number[]
+}
+
+// Below any similarity, so the benchmark compares rankings rather than thresholds
+const noThreshold = -1e9
+
+/**
+ * Measures the latency of `match_page_sections` for a range of `ef_search` values, and its
+ * recall: the share of the exact nearest sections (from `exact_match_page_sections`) it finds.
+ */
+async function benchmarkSearch({ queries, sample, matchCount, efSearch }: Options) {
+  if (!process.env.NEXT_PUBLIC_SUPABASE_URL || !process.env.SUPABASE_SERVICE_ROLE_KEY) {
+    throw new ApplicationError(
+      'Environment variables NEXT_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY are required'
+    )
+  }
+
+  const embeddingProvider = getEmbeddingProvider()
+
+  const supabaseClient = createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL,
+    process.env.SUPABASE_SERVICE_ROLE_KEY,
+    {
+      auth: {
+        persistSession: false,
+        autoRefreshToken: false,
+      },
+    }
+  )
+
+  // Text queries are embedded, otherwise stored sections stand in for queries at no cost
+  const embeddings =
+    queries.length > 0
+      ? (await createEmbeddings(embeddingProvider, queries)).map(({ embedding }) => embedding)
+      : await sampleEmbeddings(supabaseClient, embeddingProvider.model, sample)
+
+  if (embeddings.length === 0) {
+    throw new ApplicationError(`No sections embedded with ${embeddingProvider.model} to sample`)
+  }
+
+  console.log(
+    `Benchmarking ${embeddings.length} queries against ${embeddingProvider.model}, top ${matchCount}`
+  )
+
+  const exact: Measurement[] = []
+  for (const embedding of embeddings) {
+    exact.push(
+      await measure(() =>
+        supabaseClient.rpc('exact_match_page_sections', {
+          embedding,
+          embedding_model: embeddingProvider.model,
+          match_count: matchCount,
+          min_content_length: minSearchableContentLength,
+        })
+      )
+    )
+  }
+
+  console.log('')
+  console.log('ef_search   p50 ms   p95 ms   recall')
+  report('exact', exact, 1)
+
+  for (const value of efSearch) {
+    const approximate: Measurement[] = []
+    for (const embedding of embeddings) {
+      approximate.push(
+        await measure(() =>
+          supabaseClient.rpc('match_page_sections', {
+            embedding,
+            embedding_model: embeddingProvider.model,
+            match_threshold: noThreshold,
+            match_count: matchCount,
+            min_content_length: minSearchableContentLength,
+            ef_search: value,
+          })
+        )
+      )
+    }
+
+    const recalls = approximate.map(({ ids }, i) => {
+      const found = new Set(ids)
+      const expected = exact[i].ids
+      return expected.length > 0
+        ? expected.filter((id) => found.has(id)).length / expected.length
+        : 1
+    })
+
+    report(String(value), approximate, mean(recalls))
+  }
+
+  console.log('')
+  console.log('Latencies include the round trip to the database.')
+}
+
+/**
+ * Picks stored section embeddings of a model, from a random offset.
+ */
+async function sampleEmbeddings(
+  supabaseClient: SupabaseClient,
+  model: string,
+  sample: number
+): Promise<number[][]> {
+  const { error: countError, count } = await supabaseClient
+    .from('nods_page_section')
+    .select('id', { count: 'exact', head: true })
+    .filter('embedding_model', 'eq', model)
+
+  if (countError) {
+    throw new ApplicationError('Failed to count sections', countError)
+  }
+
+  const offset = Math.floor(Math.random() * Math.max(0, (count ?? 0) - sample))
+
+  const { error, data } = await supabaseClient
+    .from('nods_page_section')
+    .select('embedding')
+    .filter('embedding_model', 'eq', model)
+    .order('id')
+    .range(offset, offset + sample - 1)
+
+  if (error) {
+    throw new ApplicationError('Failed to sample section embeddings', error)
+  }
+
+  // Vectors come back in their text form, e.g. `[0.1,0.2]`
+  return data.map(({ embedding }) => JSON.parse(embedding))
+}
+
+async function measure(
+  search: () => PromiseLike<{ error: unknown; data: { id: number }[] | null }>
+): Promise<Measurement> {
+  const start = performance.now()
+  const { error, data } = await search()
+  const latencyMs = performance.now() - start
+
+  if (error) {
+    throw new ApplicationError('Failed to match page sections', error)
+  }
+
+  return { latencyMs, ids: (data ?? []).map(({ id }) => id) }
+}
+
+function report(label: string, measurements: Measurement[], recall: number) {
+  const latencies = measurements.map(({ latencyMs }) => latencyMs).sort((a, b) => a - b)
+
+  console.log(
+    [
+      label.padEnd(9),
+      percentile(latencies, 0.5).toFixed(1).padStart(8),
+      percentile(latencies, 0.95).toFixed(1).padStart(8),
+      recall.toFixed(3).padStart(8),
+    ].join(' ')
+  )
+}
+
+function percentile(sorted: number[], p: number) {
+  return sorted[Math.min(sorted.length - 1, Math.floor(p * sorted.length))]
+}
+
+function mean(values: number[]) {
+  return values.reduce((sum, value) => sum + value, 0) / values.length
+}
+
+async function main() {
+  config()
+
+  const argv = await yargs(hideBin(process.argv))
+    .scriptName('benchmark-search')
+    .usage('$0', 'Measure vector search latency and recall against exact search')
+    .options({
+      query: {
+        alias: 'q',
+        type: 'string',
+        array: true,
+        default: [] as string[],
+        description: 'Queries to embed and search for, instead of sampled sections',
+      },
+      sample: {
+        type: 'number',
+        default: 50,
+        description: 'Stored sections to search for when no queries are given',
+      },
+      'match-count': {
+        alias: 'k',
+        type: 'number',
+        default: 10,
+        description: 'Sections to match per query, recall is measured at this many',
+      },
+      'ef-search': {
+        type: 'number',
+        array: true,
+        default: [40, 100, 200, 400],
+        description: 'hnsw.ef_search values to compare',
+      },
+    })
+    .strict()
+    .parse()
+
+  await benchmarkSearch({
+    queries: argv.query,
+    sample: argv.sample,
+    matchCount: argv.matchCount,
+    efSearch: argv.efSearch,
+  })
+}
+
+main().catch((err) => {
+  console.error(err)
+  process.exit(1)
+})
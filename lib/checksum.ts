@@ -0,0 +1,10 @@
+/**
+ * Generates a hex encoded SHA-256 checksum, using Web Crypto so it works in the Edge runtime.
+ */
+export async function generateChecksum(content: string) {
+  const msgUint8 = new TextEncoder().encode(content)
+  const hashBuffer = await crypto.subtle.digest('SHA-256', msgUint8)
+  const hashArray = Array.from(new Uint8Array(hashBuffer))
+  const hashHex = hashArray.map((b) => b.toString(16).padStart(2, '0')).join('')
+  return hashHex
+}
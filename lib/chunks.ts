@@ -0,0 +1,123 @@
+import { UserError } from '@/lib/errors'
+import type { Section } from '@/lib/sections'
+import GPT3Tokenizer from 'gpt3-tokenizer'
+
+export interface SectionChunk extends Section {
+  chunkIndex: number
+}
+
+export interface ChunkOptions {
+  maxTokens: number
+  overlapTokens: number
+}
+
+// text-embedding-ada-002 accepts at most 8191 input tokens
+const modelMaxTokens = 8191
+
+export const defaultChunkOptions: ChunkOptions = {
+  maxTokens: Number(process.env.EMBEDDING_CHUNK_MAX_TOKENS ?? 1000),
+  overlapTokens: Number(process.env.EMBEDDING_CHUNK_OVERLAP_TOKENS ?? 100),
+}
+
+/**
+ * Validates chunk options from a request, falling back to the configured defaults.
+ */
+export function parseChunkOptions({
+  maxTokens = defaultChunkOptions.maxTokens,
+  overlapTokens = defaultChunkOptions.overlapTokens,
+}: Partial<ChunkOptions> = {}): ChunkOptions {
+  if (!Number.isInteger(maxTokens) || maxTokens <= 0 || maxTokens > modelMaxTokens) {
+    throw new UserError(`maxTokens must be an integer between 1 and ${modelMaxTokens}`, {
+      maxTokens,
+    })
+  }
+
+  if (!Number.isInteger(overlapTokens) || overlapTokens < 0 || overlapTokens >= maxTokens) {
+    throw new UserError('overlapTokens must be a non-negative integer smaller than maxTokens', {
+      overlapTokens,
+    })
+  }
+
+  return { maxTokens, overlapTokens }
+}
+
+/**
+ * Splits sections that exceed `maxTokens` into overlapping chunks.
+ *
+ * Chunks keep the heading and slug of their section and are numbered with `chunkIndex`
+ * so they can be stitched back together. Sections that fit are returned as chunk 0.
+ *
+ * `getPrefix` returns the text embedded in front of every chunk of a section, like its
+ * breadcrumb. Chunks are shortened when needed so that prefix and chunk fit in the model's
+ * input together.
+ *
+ * Building a tokenizer takes a while, so callers that tokenize more can pass in their own.
+ */
+export function chunkSections<T extends Section>(
+  sections: T[],
+  options: ChunkOptions,
+  getPrefix?: (section: T) => string,
+  tokenizer = new GPT3Tokenizer({ type: 'gpt3' })
+): (T & SectionChunk)[] {
+  return sections.flatMap((section) => {
+    const prefix = getPrefix?.(section) ?? ''
+    const prefixTokens = prefix ? tokenizer.encode(prefix).bpe.length : 0
+    const maxTokens = Math.max(1, Math.min(options.maxTokens, modelMaxTokens - prefixTokens))
+    const overlapTokens = Math.min(options.overlapTokens, maxTokens - 1)
+
+    return chunkText(tokenizer, section.content, { maxTokens, overlapTokens }).map(
+      (content, chunkIndex) => ({
+        ...section,
+        content,
+        chunkIndex,
+      })
+    )
+  })
+}
+
+function chunkText(
+  tokenizer: GPT3Tokenizer,
+  content: string,
+  { maxTokens, overlapTokens }: ChunkOptions
+): string[] {
+  const { bpe, text } = tokenizer.encode(content)
+
+  if (bpe.length <= maxTokens) {
+    return [content]
+  }
+
+  const chunks: string[] = []
+  let start = 0
+
+  while (start < bpe.length) {
+    let end = Math.min(start + maxTokens, bpe.length)
+
+    // Prefer to end the chunk on a word boundary, as long as it keeps most of the window
+    if (end < bpe.length) {
+      end = findWordBoundary(text, end, start + Math.ceil(maxTokens / 2)) ?? end
+    }
+
+    chunks.push(tokenizer.decode(bpe.slice(start, end)).trim())
+
+    if (end === bpe.length) {
+      break
+    }
+
+    // Start the next chunk on a word boundary inside the overlap
+    const overlapStart = Math.max(end - overlapTokens, start + 1)
+    start = overlapTokens > 0 ? findWordBoundary(text, overlapStart, end, 1) ?? overlapStart : end
+  }
+
+  return chunks.filter(Boolean)
+}
+
+/**
+ * Walks from `from` towards `to` looking for a token that starts a new word.
+ */
+function findWordBoundary(text: string[], from: number, to: number, step = -1) {
+  for (let i = from; step < 0 ? i > to : i < to; i += step) {
+    if (/^\s/.test(text[i])) {
+      return i
+    }
+  }
+}
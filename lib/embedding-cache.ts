@@ -0,0 +1,160 @@
+import { generateChecksum } from '@/lib/checksum'
+import { EmbeddingProvider, EmbeddingResult } from '@/lib/embeddings'
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+export interface EmbeddingCacheStats {
+  embedding_model: string
+  hits: number
+  misses: number
+  saved_tokens: number
+  updated_at: string
+}
+
+/**
+ * Wraps a provider with the persistent `embedding_cache` table, keyed by model, dimensions
+ * and the SHA-256 checksum of the input. Only inputs missing from the cache are sent to
+ * the provider, and repeated inputs within a call are embedded once.
+ *
+ * The cache is best effort: when it can't be read or written, inputs are embedded as usual.
+ */
+export function createCachedEmbeddingProvider(
+  supabaseClient: SupabaseClient,
+  provider: EmbeddingProvider
+): EmbeddingProvider {
+  return {
+    ...provider,
+    async embed(inputs) {
+      const checksums = await Promise.all(inputs.map((input) => generateChecksum(input)))
+      const cached = await readCache(supabaseClient, provider, checksums)
+
+      // Embed every distinct input that isn't cached once
+      const missing = new Map<string, string>()
+      checksums.forEach((checksum, i) => {
+        if (!cached.has(checksum)) {
+          missing.set(checksum, inputs[i])
+        }
+      })
+
+      const missingChecksums = Array.from(missing.keys())
+      const embedded = missingChecksums.length
+        ? await provider.embed(Array.from(missing.values()))
+        : []
+
+      const results = new Map(cached)
+      missingChecksums.forEach((checksum, i) => results.set(checksum, embedded[i]))
+
+      await writeCache(supabaseClient, provider, missingChecksums, embedded)
+
+      const embeddings = checksums.map((checksum) => results.get(checksum)!)
+
+      // Every input that didn't have to be sent to the provider counts as a hit
+      await recordStats(supabaseClient, provider, {
+        hits: inputs.length - embedded.length,
+        misses: embedded.length,
+        savedTokens: sumTokens(embeddings) - sumTokens(embedded),
+      })
+
+      return embeddings
+    },
+  }
+}
+
+/**
+ * Returns the cache hit and miss counters of every model.
+ */
+export async function getEmbeddingCacheStats(
+  supabaseClient: SupabaseClient
+): Promise<EmbeddingCacheStats[]> {
+  const { error, data } = await supabaseClient
+    .from('embedding_cache_stats')
+    .select('embedding_model, hits, misses, saved_tokens, updated_at')
+    .order('embedding_model')
+
+  if (error) {
+    throw error
+  }
+
+  return data
+}
+
+async function readCache(
+  supabaseClient: SupabaseClient,
+  provider: EmbeddingProvider,
+  checksums: string[]
+) {
+  const cached = new Map<string, EmbeddingResult>()
+
+  let query = supabaseClient
+    .from('embedding_cache')
+    .select('checksum, embedding, token_count')
+    .eq('embedding_model', provider.model)
+    .in('checksum', Array.from(new Set(checksums)))
+
+  if (provider.dimensions) {
+    query = query.eq('embedding_dimensions', provider.dimensions)
+  }
+
+  const { error, data } = await query
+
+  if (error) {
+    console.error('Failed to read embedding cache', error)
+    return cached
+  }
+
+  for (const { checksum, embedding, token_count } of data) {
+    cached.set(checksum, {
+      // pgvector columns are returned in their text form, e.g. "[0.1,0.2]"
+      embedding: typeof embedding === 'string' ? JSON.parse(embedding) : embedding,
+      tokenCount: token_count,
+    })
+  }
+
+  return cached
+}
+
+async function writeCache(
+  supabaseClient: SupabaseClient,
+  provider: EmbeddingProvider,
+  checksums: string[],
+  results: EmbeddingResult[]
+) {
+  if (checksums.length === 0) {
+    return
+  }
+
+  const { error } = await supabaseClient.from('embedding_cache').upsert(
+    checksums.map((checksum, i) => ({
+      embedding_model: provider.model,
+      embedding_dimensions: results[i].embedding.length,
+      checksum,
+      embedding: results[i].embedding,
+      token_count: results[i].tokenCount,
+    })),
+    { onConflict: 'embedding_model,embedding_dimensions,checksum', ignoreDuplicates: true }
+  )
+
+  if (error) {
+    console.error('Failed to write embedding cache', error)
+  }
+}
+
+async function recordStats(
+  supabaseClient: SupabaseClient,
+  provider: EmbeddingProvider,
+  { hits, misses, savedTokens }: { hits: number; misses: number; savedTokens: number }
+) {
+  const { error } = await supabaseClient.rpc('record_embedding_cache_stats', {
+    target_model: provider.model,
+    hit_count: hits,
+    miss_count: misses,
+    saved_token_count: savedTokens,
+  })
+
+  if (error) {
+    console.error('Failed to record embedding cache stats', error)
+  }
+}
+
+function sumTokens(results: EmbeddingResult[]) {
+  return results.reduce((sum, { tokenCount }) => sum + tokenCount, 0)
+}
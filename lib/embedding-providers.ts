@@ -0,0 +1,288 @@
+import { EmbeddingProvider, EmbeddingResult, splitTokenUsage } from '@/lib/embeddings'
+import { ApplicationError, UpstreamError } from '@/lib/errors'
+import { responseError } from '@/lib/retry'
+
+type Env = Record<string, string | undefined>
+
+interface OpenAICompatibleOptions {
+  name: string
+  url: string
+  model: string
+  dimensions?: number
+  headers: Record<string, string>
+}
+
+interface EmbeddingResponse {
+  data: { index?: number; embedding: number[] }[]
+  usage?: { total_tokens?: number }
+}
+
+const defaultModel = 'text-embedding-ada-002'
+
+// Native vector sizes of the OpenAI embedding models
+const modelDimensions: Record<string, number> = {
+  'text-embedding-ada-002': 1536,
+  'text-embedding-3-small': 1536,
+  'text-embedding-3-large': 3072,
+}
+
+/**
+ * Creates the embedding provider configured through `EMBEDDING_PROVIDER`:
+ *
+ * - `openai` (default): the OpenAI API, using `OPENAI_KEY`
+ * - `azure`: Azure OpenAI, using `AZURE_OPENAI_ENDPOINT`, `AZURE_OPENAI_KEY`,
+ *   `AZURE_OPENAI_DEPLOYMENT` and optionally `AZURE_OPENAI_API_VERSION`
+ * - `openai-compatible`: any server exposing an OpenAI style `/embeddings` endpoint
+ *   (e.g. Ollama), using `EMBEDDING_BASE_URL` and optionally `EMBEDDING_API_KEY`
+ * - `hash`: a deterministic offline provider for tests and local development
+ *
+ * `EMBEDDING_MODEL` selects the model for every provider. `EMBEDDING_DIMENSIONS` requests
+ * shortened vectors from models that support it (`text-embedding-3-*`).
+ */
+export function getEmbeddingProvider(env: Env = process.env): EmbeddingProvider {
+  const provider = env.EMBEDDING_PROVIDER ?? 'openai'
+  const model = env.EMBEDDING_MODEL ?? defaultModel
+  const dimensions = parseDimensions(env)
+
+  switch (provider) {
+    case 'openai':
+      return createOpenAIEmbeddingProvider({
+        apiKey: requireEnv(env, 'OPENAI_KEY'),
+        model,
+        dimensions,
+      })
+    case 'azure':
+      return createAzureOpenAIEmbeddingProvider({
+        endpoint: requireEnv(env, 'AZURE_OPENAI_ENDPOINT'),
+        apiKey: requireEnv(env, 'AZURE_OPENAI_KEY'),
+        deployment: requireEnv(env, 'AZURE_OPENAI_DEPLOYMENT'),
+        apiVersion: env.AZURE_OPENAI_API_VERSION,
+        model,
+        dimensions,
+      })
+    case 'openai-compatible':
+      return createOpenAICompatibleEmbeddingProvider({
+        baseUrl: requireEnv(env, 'EMBEDDING_BASE_URL'),
+        apiKey: env.EMBEDDING_API_KEY,
+        model,
+        dimensions,
+      })
+    case 'hash':
+      return createHashEmbeddingProvider({
+        model: env.EMBEDDING_MODEL ?? 'hash',
+        dimensions,
+      })
+    default:
+      throw new ApplicationError(`Unknown embedding provider '${provider}'`)
+  }
+}
+
+/**
+ * The model and vector size `getEmbeddingProvider` would use, read from the same environment
+ * variables. Doesn't need any provider credentials, for callers that never embed anything.
+ */
+export function getEmbeddingModelConfig(env: Env = process.env): {
+  model: string
+  dimensions: number | null
+} {
+  const provider = env.EMBEDDING_PROVIDER ?? 'openai'
+  const dimensions = parseDimensions(env)
+
+  switch (provider) {
+    case 'openai':
+    case 'azure':
+    case 'openai-compatible': {
+      const model = env.EMBEDDING_MODEL ?? defaultModel
+      return { model, dimensions: dimensions ?? modelDimensions[model] ?? null }
+    }
+    case 'hash':
+      return { model: env.EMBEDDING_MODEL ?? 'hash', dimensions: dimensions ?? 1536 }
+    default:
+      throw new ApplicationError(`Unknown embedding provider '${provider}'`)
+  }
+}
+
+export function createOpenAIEmbeddingProvider({
+  apiKey,
+  model = defaultModel,
+  dimensions,
+}: {
+  apiKey: string
+  model?: string
+  dimensions?: number
+}): EmbeddingProvider {
+  return createOpenAICompatibleProvider({
+    name: 'openai',
+    url: 'https://api.openai.com/v1/embeddings',
+    model,
+    dimensions,
+    headers: { Authorization: `Bearer ${apiKey}` },
+  })
+}
+
+export function createAzureOpenAIEmbeddingProvider({
+  endpoint,
+  apiKey,
+  deployment,
+  apiVersion = '2023-05-15',
+  model = defaultModel,
+  dimensions,
+}: {
+  endpoint: string
+  apiKey: string
+  deployment: string
+  apiVersion?: string
+  model?: string
+  dimensions?: number
+}): EmbeddingProvider {
+  const url = new URL(
+    `openai/deployments/${encodeURIComponent(deployment)}/embeddings`,
+    endpoint.endsWith('/') ? endpoint : `${endpoint}/`
+  )
+  url.searchParams.set('api-version', apiVersion)
+
+  return createOpenAICompatibleProvider({
+    name: 'azure',
+    url: url.toString(),
+    model,
+    dimensions,
+    headers: { 'api-key': apiKey },
+  })
+}
+
+export function createOpenAICompatibleEmbeddingProvider({
+  baseUrl,
+  apiKey,
+  model = defaultModel,
+  dimensions,
+}: {
+  baseUrl: string
+  apiKey?: string
+  model?: string
+  dimensions?: number
+}): EmbeddingProvider {
+  return createOpenAICompatibleProvider({
+    name: 'openai-compatible',
+    url: `${baseUrl.replace(/\/+$/, '')}/embeddings`,
+    model,
+    dimensions,
+    headers: apiKey ? { Authorization: `Bearer ${apiKey}` } : {},
+  })
+}
+
+/**
+ * A deterministic provider that embeds text by hashing its words into a fixed number of
+ * dimensions. Texts sharing words get similar vectors, which is enough for tests and
+ * running the app without network access.
+ */
+export function createHashEmbeddingProvider({
+  model = 'hash',
+  dimensions = 1536,
+}: {
+  model?: string
+  dimensions?: number
+} = {}): EmbeddingProvider {
+  return {
+    name: 'hash',
+    model,
+    dimensions,
+    async embed(inputs) {
+      const tokenCounts = splitTokenUsage(inputs)
+
+      return inputs.map((input, i) => ({
+        embedding: hashEmbedding(input, dimensions),
+        tokenCount: tokenCounts[i],
+      }))
+    },
+  }
+}
+
+function createOpenAICompatibleProvider({
+  name,
+  url,
+  model,
+  dimensions,
+  headers,
+}: OpenAICompatibleOptions): EmbeddingProvider {
+  return {
+    name,
+    model,
+    dimensions: dimensions ?? modelDimensions[model] ?? null,
+    async embed(inputs): Promise<EmbeddingResult[]> {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...headers,
+        },
+        // Only send dimensions when configured, as not every model or server supports it
+        body: JSON.stringify(
+          dimensions ? { model, input: inputs, dimensions } : { model, input: inputs }
+        ),
+      }).catch((err) => {
+        throw new UpstreamError('Failed to reach embedding provider', {
+          provider: name,
+          cause: String(err),
+        })
+      })
+
+      if (!response.ok) {
+        throw await responseError('Failed to generate embedding', response)
+      }
+
+      const embeddingData: EmbeddingResponse = await response.json()
+
+      if (!embeddingData || !Array.isArray(embeddingData.data)) {
+        throw new ApplicationError('Invalid embedding response format', embeddingData)
+      }
+
+      // Map results back to their inputs, as they are not guaranteed to be in order
+      const embeddings: number[][] = []
+      embeddingData.data.forEach(({ index, embedding }, i) => {
+        embeddings[index ?? i] = embedding
+      })
+
+      const tokenCounts = splitTokenUsage(inputs, embeddingData.usage?.total_tokens)
+
+      return embeddings.map((embedding, i) => ({ embedding, tokenCount: tokenCounts[i] }))
+    },
+  }
+}
+
+function hashEmbedding(input: string, dimensions: number) {
+  const vector = new Array<number>(dimensions).fill(0)
+  const words = input.toLowerCase().match(/[\p{L}\p{N}_]+/gu) ?? []
+
+  for (const word of words) {
+    const hash = fnv1a(word)
+    vector[hash % dimensions] += hash & 0x80000000 ? -1 : 1
+  }
+
+  // Normalize to unit length like OpenAI embeddings, so dot product equals cosine similarity
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0))
+
+  return norm > 0 ? vector.map((value) => value / norm) : vector
+}
+
+function fnv1a(text: string) {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193) >>> 0
+  }
+  return hash
+}
+
+function parseDimensions(env: Env) {
+  return env.EMBEDDING_DIMENSIONS ? Number(env.EMBEDDING_DIMENSIONS) : undefined
+}
+
+function requireEnv(env: Env, name: string) {
+  const value = env[name]
+
+  if (!value) {
+    throw new ApplicationError(`Missing environment variable ${name}`)
+  }
+
+  return value
+}
@@ -0,0 +1,129 @@
+import { ApplicationError } from '@/lib/errors'
+import { withRetry } from '@/lib/retry'
+import GPT3Tokenizer from 'gpt3-tokenizer'
+
+export interface EmbeddingResult {
+  embedding: number[]
+  tokenCount: number
+}
+
+/**
+ * A service that turns text into embedding vectors.
+ * Providers are selected through environment configuration, see `getEmbeddingProvider`.
+ */
+export interface EmbeddingProvider {
+  name: string
+  model: string
+  /**
+   * Size of the vectors this provider returns, or `null` when it is only known
+   * once the first embedding comes back.
+   */
+  dimensions: number | null
+  embed(inputs: string[]): Promise<EmbeddingResult[]>
+}
+
+export interface BatchLimits {
+  maxInputs: number
+  maxTokens: number
+}
+
+export const defaultBatchLimits: BatchLimits = {
+  maxInputs: Number(process.env.EMBEDDING_BATCH_MAX_INPUTS ?? 100),
+  maxTokens: Number(process.env.EMBEDDING_BATCH_MAX_TOKENS ?? 50000),
+}
+
+/**
+ * Groups inputs into batches bounded by input count and total tokens.
+ * Returns the indexes of the inputs in each batch, in order.
+ */
+export function batchEmbeddingInputs(
+  inputs: string[],
+  { maxInputs, maxTokens }: BatchLimits = defaultBatchLimits
+): number[][] {
+  const tokenizer = new GPT3Tokenizer({ type: 'gpt3' })
+  const batches: number[][] = []
+
+  let batch: number[] = []
+  let batchTokens = 0
+
+  inputs.forEach((input, i) => {
+    const tokens = tokenizer.encode(input).bpe.length
+
+    if (batch.length > 0 && (batch.length >= maxInputs || batchTokens + tokens > maxTokens)) {
+      batches.push(batch)
+      batch = []
+      batchTokens = 0
+    }
+
+    batch.push(i)
+    batchTokens += tokens
+  })
+
+  if (batch.length > 0) {
+    batches.push(batch)
+  }
+
+  return batches
+}
+
+/**
+ * Embeds a batch of inputs with a single provider call, returning one result per input in order.
+ * Rate limits and server errors are retried with backoff, see `withRetry`.
+ */
+export async function createEmbeddings(
+  provider: EmbeddingProvider,
+  inputs: string[]
+): Promise<EmbeddingResult[]> {
+  // OpenAI recommends replacing newlines with spaces for best results
+  const normalizedInputs = inputs.map((text) => text.replace(/\n/g, ' '))
+  const results = await withRetry(() => provider.embed(normalizedInputs))
+
+  if (results.length !== inputs.length || results.some((result) => !result?.embedding)) {
+    throw new ApplicationError('Invalid embedding response format', {
+      provider: provider.name,
+      model: provider.model,
+      inputs: inputs.length,
+      results: results.length,
+    })
+  }
+
+  return results
+}
+
+/**
+ * Splits a batch's total token usage across its inputs proportionally, using
+ * largest remainders so the per-input counts add up to the reported total.
+ * Without a reported total the locally counted tokens are used as is.
+ */
+export function splitTokenUsage(inputs: string[], totalTokens?: number) {
+  if (inputs.length === 1 && totalTokens !== undefined) {
+    return [totalTokens]
+  }
+
+  const tokenizer = new GPT3Tokenizer({ type: 'gpt3' })
+  const estimates = inputs.map((input) => Math.max(tokenizer.encode(input).bpe.length, 1))
+
+  if (totalTokens === undefined) {
+    return estimates
+  }
+
+  const estimatedTotal = estimates.reduce((sum, tokens) => sum + tokens, 0)
+
+  const shares = estimates.map((tokens) => (tokens / estimatedTotal) * totalTokens)
+  const counts = shares.map(Math.floor)
+
+  let remainder = totalTokens - counts.reduce((sum, tokens) => sum + tokens, 0)
+  const byRemainder = shares
+    .map((share, i) => ({ i, fraction: share - counts[i] }))
+    .sort((a, b) => b.fraction - a.fraction)
+
+  for (const { i } of byRemainder) {
+    if (remainder <= 0) {
+      break
+    }
+    counts[i]++
+    remainder--
+  }
+
+  return counts
+}
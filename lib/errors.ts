@@ -4,4 +4,111 @@ export class ApplicationError extends Error {
   }
 }
 
-export class UserError extends ApplicationError {}
+/**
+ * A problem with the request, such as invalid input or a missing API key. Handlers respond
+ * with its `status`, 400 unless set otherwise.
+ */
+export class UserError extends ApplicationError {
+  constructor(message: string, data: Record<string, any> = {}, public status = 400) {
+    super(message, data);
+  }
+}
+
+export class IngestionError extends ApplicationError {}
+
+/**
+ * A transient failure of an upstream service, such as a rate limit or a server error.
+ * Handlers map it to a 429 or 503 with a `Retry-After` hint.
+ */
+export class UpstreamError extends ApplicationError {
+  constructor(
+    message: string,
+    data: Record<string, any> = {},
+    public status = 503,
+    public retryAfterMs?: number
+  ) {
+    super(message, data);
+  }
+}
+
+/**
+ * A client went over its rate limit or token quota. Handlers respond with a 429 and its
+ * `RateLimit-*` and `Retry-After` headers.
+ */
+export class RateLimitError extends UserError {
+  constructor(
+    message: string,
+    data: Record<string, any> = {},
+    public headers: Record<string, string> = {}
+  ) {
+    super(message, data, 429);
+  }
+}
+
+/**
+ * Turns an error thrown by an API route into its JSON response. Errors caused by the request
+ * keep their status and message, upstream failures tell the caller when to retry, and
+ * anything else is logged and reported as a generic 500.
+ */
+export function errorResponse(err: unknown): Response {
+  if (err instanceof RateLimitError) {
+    return jsonErrorResponse(err, 429, err.headers);
+  } else if (err instanceof UserError) {
+    return jsonErrorResponse(err, err.status);
+  } else if (err instanceof UpstreamError) {
+    // The model provider is rate limiting or unavailable, so tell the caller when to retry
+    console.error(`${err.message}: ${JSON.stringify(err.data)}`);
+    const retryAfter = Math.ceil((err.retryAfterMs ?? 1000) / 1000);
+
+    return new Response(
+      JSON.stringify({
+        error: err.message,
+        data: err.data,
+        retryAfter,
+      }),
+      {
+        status: err.status === 429 ? 429 : 503,
+        headers: { "Content-Type": "application/json", "Retry-After": String(retryAfter) },
+      }
+    );
+  } else if (err instanceof IngestionError) {
+    // Report which section broke; the previously stored sections are still intact
+    console.error(`${err.message}: ${JSON.stringify(err.data)}`);
+
+    return jsonErrorResponse(err, 500);
+  } else if (err instanceof ApplicationError) {
+    // Print out application errors with their additional data
+    console.error(`${err.message}: ${JSON.stringify(err.data)}`);
+  } else {
+    // Print out unexpected errors as is to help with debugging
+    console.error(err);
+  }
+
+  // TODO: include more response info in debug environments
+  return new Response(
+    JSON.stringify({
+      error: "There was an error processing your request",
+    }),
+    {
+      status: 500,
+      headers: { "Content-Type": "application/json" },
+    }
+  );
+}
+
+function jsonErrorResponse(
+  err: ApplicationError,
+  status: number,
+  headers: Record<string, string> = {}
+) {
+  return new Response(
+    JSON.stringify({
+      error: err.message,
+      data: err.data,
+    }),
+    {
+      status,
+      headers: { "Content-Type": "application/json", ...headers },
+    }
+  );
+}
@@ -0,0 +1,435 @@
+import { chunkSections, defaultChunkOptions } from '@/lib/chunks'
+import { createCachedEmbeddingProvider } from '@/lib/embedding-cache'
+import { getEmbeddingProvider } from '@/lib/embedding-providers'
+import { EmbeddingProvider } from '@/lib/embeddings'
+import { ApplicationError } from '@/lib/errors'
+import {
+  defaultPrependTitle,
+  generatePageChecksum,
+  getEmbeddingPrefix,
+  getPageTitle,
+  ingestPage,
+  mergeFrontmatter,
+} from '@/lib/ingest'
+import { ContentType, processContent } from '@/lib/sections'
+import { createClient, SupabaseClient } from '@supabase/supabase-js'
+import { config } from 'dotenv'
+import { readdir, readFile } from 'fs/promises'
+import { extname, join } from 'path'
+import yargs from 'yargs'
+import { hideBin } from 'yargs/helpers'
+
+interface DocFile {
+  filePath: string
+  path: string
+  parentPath?: string
+  type: ContentType
+}
+
+interface Options {
+  dir: string
+  patterns: string[]
+  source: string
+  refresh: boolean
+  dryRun: boolean
+  prependTitle: boolean
+}
+
+// File extensions that can be embedded and the content type they are processed as
+const extensionTypes: Record<string, ContentType> = {
+  '.md': 'markdown',
+  '.mdx': 'markdown',
+  '.html': 'html',
+  '.htm': 'html',
+  '.txt': 'text',
+}
+
+/**
+ * Recursively lists the files under a directory, relative to it and with `/` separators.
+ */
+async function walk(dir: string, prefix = ''): Promise<string[]> {
+  const entries = await readdir(join(dir, prefix), { withFileTypes: true })
+
+  const files = await Promise.all(
+    entries.map(async (entry) => {
+      const relativePath = prefix ? `${prefix}/${entry.name}` : entry.name
+
+      if (entry.isDirectory()) {
+        return walk(dir, relativePath)
+      }
+
+      return entry.isFile() ? [relativePath] : []
+    })
+  )
+
+  return files.flat()
+}
+
+/**
+ * Converts a glob pattern to a regular expression. Supports `**`, `*`, `?` and `{a,b}`.
+ */
+function globToRegExp(pattern: string) {
+  let source = ''
+  let braceDepth = 0
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i]
+
+    if (pattern.startsWith('**/', i)) {
+      source += '(?:.*/)?'
+      i += 2
+    } else if (pattern.startsWith('**', i)) {
+      source += '.*'
+      i += 1
+    } else if (char === '*') {
+      source += '[^/]*'
+    } else if (char === '?') {
+      source += '[^/]'
+    } else if (char === '{') {
+      source += '(?:'
+      braceDepth++
+    } else if (char === '}' && braceDepth > 0) {
+      source += ')'
+      braceDepth--
+    } else if (char === ',' && braceDepth > 0) {
+      source += '|'
+    } else {
+      source += char.replace(/[.+^$(){}|[\]\\]/g, '\\$&')
+    }
+  }
+
+  return new RegExp(`^${source}$`)
+}
+
+/**
+ * Maps a file to its page path, e.g. `docs/guides/index.mdx` becomes `/docs/guides`.
+ */
+function toPagePath(relativePath: string) {
+  const withoutExtension = relativePath.slice(0, -extname(relativePath).length)
+  const path = `/${withoutExtension}`.replace(/\/index$/, '')
+
+  return path || '/'
+}
+
+/**
+ * Finds the docs to embed. Each page's parent is the nearest ancestor directory that has
+ * a page of its own, either `dir.mdx` next to the directory or `dir/index.mdx` inside it.
+ */
+async function findDocs(dir: string, patterns: string[]): Promise<DocFile[]> {
+  const matchers = patterns.map(globToRegExp)
+  const files = (await walk(dir)).filter((file) => matchers.some((matcher) => matcher.test(file)))
+
+  const docs = new Map<string, DocFile>()
+
+  for (const file of files.sort()) {
+    const type = extensionTypes[extname(file).toLowerCase()]
+
+    if (!type) {
+      console.warn(`Skipping ${file}: unsupported file type`)
+      continue
+    }
+
+    const path = toPagePath(file)
+    const existing = docs.get(path)
+
+    if (existing) {
+      console.warn(`Skipping ${file}: ${existing.filePath} already maps to ${path}`)
+      continue
+    }
+
+    docs.set(path, { filePath: join(dir, file), path, type })
+  }
+
+  for (const doc of Array.from(docs.values())) {
+    const segments = doc.path.split('/').slice(1, -1)
+
+    for (let i = segments.length; i > 0; i--) {
+      const ancestorPath = `/${segments.slice(0, i).join('/')}`
+
+      if (docs.has(ancestorPath)) {
+        doc.parentPath = ancestorPath
+        break
+      }
+    }
+  }
+
+  // Embed parents before their children, so their pages exist when children link to them
+  return Array.from(docs.values()).sort(
+    (a, b) => a.path.split('/').length - b.path.split('/').length || a.path.localeCompare(b.path)
+  )
+}
+
+async function generateEmbeddings({
+  dir,
+  patterns,
+  source,
+  refresh,
+  dryRun,
+  prependTitle,
+}: Options) {
+  if (!process.env.NEXT_PUBLIC_SUPABASE_URL || !process.env.SUPABASE_SERVICE_ROLE_KEY) {
+    return console.log(
+      'Environment variables NEXT_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY are required: skipping embeddings generation'
+    )
+  }
+
+  let embeddingProvider
+  try {
+    embeddingProvider = getEmbeddingProvider()
+  } catch (err) {
+    if (err instanceof ApplicationError) {
+      return console.log(`${err.message}: skipping embeddings generation`)
+    }
+    throw err
+  }
+
+  const supabaseClient = createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL,
+    process.env.SUPABASE_SERVICE_ROLE_KEY,
+    {
+      auth: {
+        persistSession: false,
+        autoRefreshToken: false,
+      },
+    }
+  )
+
+  const docs = await findDocs(dir, patterns)
+  const chunkOptions = defaultChunkOptions
+
+  console.log(
+    `Discovered ${docs.length} pages in ${dir}${dryRun ? ' (dry run, nothing is written)' : ''}`
+  )
+
+  let failed = 0
+
+  for (const doc of docs) {
+    const content = await readFile(doc.filePath, 'utf8')
+
+    try {
+      if (dryRun) {
+        await previewDoc(
+          supabaseClient,
+          embeddingProvider,
+          doc,
+          content,
+          source,
+          refresh,
+          prependTitle
+        )
+        continue
+      }
+
+      const result = await ingestPage(
+        supabaseClient,
+        createCachedEmbeddingProvider(supabaseClient, embeddingProvider),
+        {
+          content,
+          type: doc.type,
+          source,
+          path: doc.path,
+          parentPath: doc.parentPath,
+          chunkOptions,
+          prependTitle,
+          force: refresh,
+        }
+      )
+
+      console.log(
+        result.status === 'skipped'
+          ? `[unchanged] ${doc.path}`
+          : `[${result.status}] ${doc.path}: ${result.sections} sections (${result.unchanged} unchanged, ${result.removed} removed)`
+      )
+    } catch (err) {
+      failed++
+
+      if (err instanceof ApplicationError) {
+        console.error(`[failed] ${doc.path}: ${err.message}: ${JSON.stringify(err.data)}`)
+      } else {
+        console.error(`[failed] ${doc.path}:`, err)
+      }
+    }
+  }
+
+  // An empty result is more likely a wrong directory or pattern than a deleted corpus
+  if (docs.length === 0) {
+    console.warn(`No pages found in ${dir}, not removing any pages`)
+    return
+  }
+
+  await removeDeletedPages(
+    supabaseClient,
+    source,
+    docs.map(({ path }) => path),
+    dryRun
+  )
+
+  if (failed > 0) {
+    console.error(`Failed to embed ${failed} of ${docs.length} pages`)
+    process.exitCode = 1
+  } else {
+    console.log('Embedding generation complete')
+  }
+}
+
+/**
+ * Reports what embedding a doc would do, without writing or calling the embedding provider.
+ */
+async function previewDoc(
+  supabaseClient: SupabaseClient,
+  embeddingProvider: EmbeddingProvider,
+  doc: DocFile,
+  content: string,
+  source: string,
+  refresh: boolean,
+  prependTitle: boolean
+) {
+  const { error, data: existingPage } = await supabaseClient
+    .from('nods_page')
+    .select('checksum')
+    .filter('path', 'eq', doc.path)
+    .limit(1)
+    .maybeSingle()
+
+  if (error) {
+    throw new ApplicationError('Failed to fetch page', error)
+  }
+
+  const meta = mergeFrontmatter(content, doc.type)
+  const title = prependTitle ? getPageTitle(meta) : ''
+  const sections = chunkSections(
+    processContent(content, doc.type),
+    defaultChunkOptions,
+    ({ headingPath }) => getEmbeddingPrefix(title, headingPath)
+  )
+  const checksum = await generatePageChecksum(content, defaultChunkOptions, embeddingProvider, {
+    title,
+    type: doc.type,
+    source,
+    meta,
+    parentPath: doc.parentPath,
+  })
+  const status = !existingPage
+    ? 'new'
+    : existingPage.checksum !== checksum || refresh
+    ? 'changed'
+    : 'unchanged'
+
+  console.log(
+    `[${status}] ${doc.path}: ${sections.length} sections${
+      doc.parentPath ? `, parent ${doc.parentPath}` : ''
+    }`
+  )
+}
+
+/**
+ * Removes the pages of a source whose files no longer exist. Their sections are removed
+ * with them, and child pages are detached rather than removed.
+ */
+async function removeDeletedPages(
+  supabaseClient: SupabaseClient,
+  source: string,
+  paths: string[],
+  dryRun: boolean
+) {
+  const { error: fetchPagesError, data: pages } = await supabaseClient
+    .from('nods_page')
+    .select('id, path')
+    .filter('source', 'eq', source)
+
+  if (fetchPagesError) {
+    throw new ApplicationError('Failed to fetch pages', fetchPagesError)
+  }
+
+  const existingPaths = new Set(paths)
+  const deletedPages = pages.filter(({ path }) => !existingPaths.has(path))
+
+  if (deletedPages.length === 0) {
+    return
+  }
+
+  for (const { path } of deletedPages) {
+    console.log(`[${dryRun ? 'would remove' : 'removed'}] ${path}`)
+  }
+
+  if (dryRun) {
+    return
+  }
+
+  const ids = deletedPages.map(({ id }) => id)
+
+  const { error: detachChildrenError } = await supabaseClient
+    .from('nods_page')
+    .update({ parent_page_id: null })
+    .in('parent_page_id', ids)
+
+  if (detachChildrenError) {
+    throw new ApplicationError('Failed to detach child pages', detachChildrenError)
+  }
+
+  const { error: deletePagesError } = await supabaseClient.from('nods_page').delete().in('id', ids)
+
+  if (deletePagesError) {
+    throw new ApplicationError('Failed to remove deleted pages', deletePagesError)
+  }
+}
+
+async function main() {
+  config()
+
+  const argv = await yargs(hideBin(process.argv))
+    .scriptName('embeddings')
+    .command('$0 [dir]', 'Generate embeddings for the docs in a directory')
+    .positional('dir', {
+      type: 'string',
+      default: 'pages',
+      description: 'Directory to index, page paths are relative to it',
+    })
+    .options({
+      pattern: {
+        alias: 'p',
+        type: 'string',
+        array: true,
+        default: ['**/*.mdx'],
+        description: 'Glob patterns of the files to index',
+      },
+      source: {
+        type: 'string',
+        default: 'docs',
+        description:
+          'Source recorded on the pages. Pages of this source without a file are removed',
+      },
+      refresh: {
+        type: 'boolean',
+        default: false,
+        description: 'Re-embed every page, even if unchanged',
+      },
+      'prepend-title': {
+        type: 'boolean',
+        default: defaultPrependTitle,
+        description:
+          'Prepend the frontmatter title to the heading breadcrumb embedded with every section',
+      },
+      'dry-run': {
+        type: 'boolean',
+        default: false,
+        description: 'Report what would change without writing or embedding anything',
+      },
+    })
+    .strict()
+    .parse()
+
+  await generateEmbeddings({
+    dir: argv.dir,
+    patterns: argv.pattern,
+    source: argv.source,
+    refresh: argv.refresh,
+    dryRun: argv.dryRun,
+    prependTitle: argv.prependTitle,
+  })
+}
+
+main().catch((err) => {
+  console.error(err)
+  process.exit(1)
+})
@@ -0,0 +1,21 @@
+// Separates the headings of a breadcrumb, e.g. `Guides › Auth › Passwords`
+export const breadcrumbSeparator = ' › '
+
+/**
+ * Tracks the headings enclosing the current position of a document. Call the returned
+ * function for each heading in order to get its path from the top-level heading down,
+ * e.g. `['Databases', 'Postgres', 'Configuration']`.
+ */
+export function createHeadingPathTracker() {
+  const stack: { depth: number; text: string }[] = []
+
+  return (depth: number, text: string) => {
+    while (stack.length > 0 && stack[stack.length - 1].depth >= depth) {
+      stack.pop()
+    }
+
+    stack.push({ depth, text })
+
+    return stack.map((heading) => heading.text)
+  }
+}
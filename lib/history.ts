@@ -0,0 +1,319 @@
+import { ApplicationError, UserError } from '@/lib/errors'
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+export interface Paginated<T> {
+  items: T[]
+  page: number
+  pageSize: number
+  total: number
+}
+
+export interface PageSummary {
+  id: number
+  path: string
+  type: string | null
+  source: string | null
+  sectionCount: number
+  createdAt: string
+  updatedAt: string
+}
+
+export interface PageSectionDetail {
+  id: number
+  heading: string | null
+  headingPath: string[]
+  slug: string | null
+  chunkIndex: number
+  tokenCount: number | null
+  content: string
+}
+
+export interface PageDetail extends PageSummary {
+  checksum: string | null
+  meta: Record<string, any> | null
+  parentPage: { id: number; path: string } | null
+  sections: PageSectionDetail[]
+}
+
+export interface ConversationSummary {
+  id: number
+  conversationId: string
+  title: string | null
+  summary: string | null
+  messageCount: number
+  createdAt: string
+}
+
+export interface ConversationMessageDetail {
+  id: number
+  role: 'user' | 'assistant' | 'system'
+  content: string
+  tokenCount: number | null
+  createdAt: string
+}
+
+export interface ConversationDetail extends ConversationSummary {
+  metadata: Record<string, any> | null
+  messages: ConversationMessageDetail[]
+}
+
+export interface Pagination {
+  page: number
+  pageSize: number
+}
+
+export const maxPageSize = 100
+
+/**
+ * Parses the 1-based `page` and `pageSize` query parameters of a list route.
+ */
+export function parsePagination(searchParams: URLSearchParams): Pagination {
+  const page = Number(searchParams.get('page') ?? 1)
+  const pageSize = Number(searchParams.get('pageSize') ?? 20)
+
+  if (!Number.isInteger(page) || page < 1) {
+    throw new UserError('page must be a positive integer', { page })
+  }
+
+  if (!Number.isInteger(pageSize) || pageSize < 1 || pageSize > maxPageSize) {
+    throw new UserError(`pageSize must be an integer between 1 and ${maxPageSize}`, { pageSize })
+  }
+
+  return { page, pageSize }
+}
+
+/**
+ * Parses the numeric id of a detail route.
+ */
+export function parseId(value: string | null, name: string) {
+  const id = Number(value)
+
+  if (!Number.isInteger(id) || id <= 0) {
+    throw new UserError(`Invalid ${name} id`)
+  }
+
+  return id
+}
+
+/**
+ * Lists pages, most recently updated first.
+ */
+export async function listPages(
+  supabaseClient: SupabaseClient,
+  { page, pageSize }: Pagination
+): Promise<Paginated<PageSummary>> {
+  const { error, data, count } = await supabaseClient
+    .from('nods_page')
+    .select('id, path, type, source, created_at, updated_at, sections:nods_page_section(count)', {
+      count: 'exact',
+    })
+    .order('updated_at', { ascending: false })
+    .order('id', { ascending: false })
+    .range((page - 1) * pageSize, page * pageSize - 1)
+
+  if (error) {
+    throw new ApplicationError('Failed to list pages', error)
+  }
+
+  return {
+    items: data.map(toPageSummary),
+    page,
+    pageSize,
+    total: count ?? 0,
+  }
+}
+
+/**
+ * Fetches a page with its sections in document order.
+ */
+export async function getPage(supabaseClient: SupabaseClient, id: number): Promise<PageDetail> {
+  const { error, data } = await supabaseClient
+    .from('nods_page')
+    .select(
+      `
+      id,
+      path,
+      type,
+      source,
+      checksum,
+      meta,
+      created_at,
+      updated_at,
+      parentPage:parent_page_id(id, path),
+      sections:nods_page_section(id, heading, heading_path, slug, chunk_index, position, token_count, content)
+    `
+    )
+    .filter('id', 'eq', id)
+    .maybeSingle()
+
+  if (error) {
+    throw new ApplicationError('Failed to fetch page', error)
+  }
+
+  if (!data) {
+    throw new UserError('Page not found', { id }, 404)
+  }
+
+  // In document order, chunks of a section by their index
+  const sections = [...data.sections].sort(
+    (a, b) => a.position - b.position || a.chunk_index - b.chunk_index || a.id - b.id
+  )
+  const parentPage = Array.isArray(data.parentPage) ? data.parentPage[0] : data.parentPage
+
+  return {
+    ...toPageSummary({ ...data, sections: [{ count: sections.length }] }),
+    checksum: data.checksum,
+    meta: data.meta,
+    parentPage: parentPage ? { id: parentPage.id, path: parentPage.path } : null,
+    sections: sections.map((section) => ({
+      id: section.id,
+      heading: section.heading,
+      headingPath: section.heading_path ?? [],
+      slug: section.slug,
+      chunkIndex: section.chunk_index,
+      tokenCount: section.token_count,
+      content: section.content,
+    })),
+  }
+}
+
+/**
+ * Removes a page and its sections. Child pages are detached rather than removed.
+ * Returns the number of sections removed.
+ */
+export async function deletePage(supabaseClient: SupabaseClient, id: number): Promise<number> {
+  const { error, data: deletedSections } = await supabaseClient.rpc('delete_page', {
+    target_page_id: id,
+  })
+
+  if (error) {
+    throw new ApplicationError('Failed to delete page', error)
+  }
+
+  if (deletedSections === null) {
+    throw new UserError('Page not found', { id }, 404)
+  }
+
+  return deletedSections
+}
+
+/**
+ * Lists conversations, most recent first.
+ */
+export async function listConversations(
+  supabaseClient: SupabaseClient,
+  { page, pageSize }: Pagination
+): Promise<Paginated<ConversationSummary>> {
+  const { error, data, count } = await supabaseClient
+    .from('conversation_history')
+    .select(
+      'id, conversation_id, title, summary, created_at, messages:conversation_message(count)',
+      {
+        count: 'exact',
+      }
+    )
+    .order('created_at', { ascending: false })
+    .order('id', { ascending: false })
+    .range((page - 1) * pageSize, page * pageSize - 1)
+
+  if (error) {
+    throw new ApplicationError('Failed to list conversations', error)
+  }
+
+  return {
+    items: data.map(toConversationSummary),
+    page,
+    pageSize,
+    total: count ?? 0,
+  }
+}
+
+/**
+ * Fetches a conversation with its messages in the order they were sent.
+ */
+export async function getConversation(
+  supabaseClient: SupabaseClient,
+  id: number
+): Promise<ConversationDetail> {
+  const { error, data } = await supabaseClient
+    .from('conversation_history')
+    .select(
+      `
+      id,
+      conversation_id,
+      title,
+      summary,
+      metadata,
+      created_at,
+      messages:conversation_message(id, role, content, token_count, created_at)
+    `
+    )
+    .filter('id', 'eq', id)
+    .maybeSingle()
+
+  if (error) {
+    throw new ApplicationError('Failed to fetch conversation', error)
+  }
+
+  if (!data) {
+    throw new UserError('Conversation not found', { id }, 404)
+  }
+
+  const messages = [...data.messages].sort(
+    (a, b) => a.created_at.localeCompare(b.created_at) || a.id - b.id
+  )
+
+  return {
+    ...toConversationSummary({ ...data, messages: [{ count: messages.length }] }),
+    metadata: data.metadata,
+    messages: messages.map((message) => ({
+      id: message.id,
+      role: message.role,
+      content: message.content,
+      tokenCount: message.token_count,
+      createdAt: message.created_at,
+    })),
+  }
+}
+
+/**
+ * Removes a conversation and its messages.
+ */
+export async function deleteConversation(supabaseClient: SupabaseClient, id: number) {
+  const { error, data } = await supabaseClient
+    .from('conversation_history')
+    .delete()
+    .filter('id', 'eq', id)
+    .select('id')
+
+  if (error) {
+    throw new ApplicationError('Failed to delete conversation', error)
+  }
+
+  if (data.length === 0) {
+    throw new UserError('Conversation not found', { id }, 404)
+  }
+}
+
+function toPageSummary(page: Record<string, any>): PageSummary {
+  return {
+    id: page.id,
+    path: page.path,
+    type: page.type,
+    source: page.source,
+    sectionCount: page.sections[0]?.count ?? 0,
+    createdAt: page.created_at,
+    updatedAt: page.updated_at,
+  }
+}
+
+function toConversationSummary(conversation: Record<string, any>): ConversationSummary {
+  return {
+    id: conversation.id,
+    conversationId: conversation.conversation_id,
+    title: conversation.title,
+    summary: conversation.summary,
+    messageCount: conversation.messages[0]?.count ?? 0,
+    createdAt: conversation.created_at,
+  }
+}
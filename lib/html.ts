@@ -0,0 +1,354 @@
+import { createHeadingPathTracker } from '@/lib/headings'
+import type { Section } from '@/lib/sections'
+import GithubSlugger from 'github-slugger'
+import type { Element, Root, RootContent } from 'hast'
+import { fromHtml } from 'hast-util-from-html'
+
+type Block =
+  | { type: 'heading'; depth: number; text: string; id: string | null }
+  | { type: 'text'; text: string }
+
+// Elements that never hold document content
+const removedTagNames = new Set([
+  'head',
+  'script',
+  'style',
+  'noscript',
+  'template',
+  'iframe',
+  'object',
+  'embed',
+  'svg',
+  'canvas',
+  'nav',
+  'header',
+  'footer',
+  'aside',
+  'form',
+  'button',
+  'select',
+  'input',
+  'textarea',
+])
+
+// ARIA landmarks used for site chrome rather than content
+const removedRoles = new Set(['navigation', 'banner', 'contentinfo', 'search', 'complementary'])
+
+// Class names commonly used for boilerplate in exported Confluence and help-center pages
+const removedClassNames = new Set(['breadcrumb', 'breadcrumbs', 'sidebar', 'toc', 'skip-link'])
+
+const headingTagNames = new Set(['h1', 'h2', 'h3', 'h4', 'h5', 'h6'])
+
+const blockTagNames = new Set([
+  'address',
+  'article',
+  'blockquote',
+  'body',
+  'dd',
+  'details',
+  'div',
+  'dl',
+  'dt',
+  'figcaption',
+  'figure',
+  'hr',
+  'html',
+  'li',
+  'main',
+  'ol',
+  'p',
+  'pre',
+  'section',
+  'summary',
+  'table',
+  'ul',
+  ...Array.from(headingTagNames),
+])
+
+/**
+ * Parses an HTML document and splits it into one section per `<h1>`–`<h6>` heading.
+ *
+ * Scripts, styles and navigation boilerplate are removed, and lists and tables are
+ * rendered as readable text. Section slugs use the heading's `id` when it has one.
+ */
+export function processHtml(content: string): Section[] {
+  const tree = fromHtml(content)
+  const blocks = toBlocks(findContentRoot(tree))
+  const slugger = new GithubSlugger()
+  const trackHeadingPath = createHeadingPathTracker()
+
+  // Element ids are the document's real anchors, so generated slugs must not take them
+  for (const block of blocks) {
+    if (block.type === 'heading' && block.id) {
+      slugger.occurrences[block.id] = 0
+    }
+  }
+
+  const sections: Section[] = []
+  let current: Section = { heading: null, headingPath: [], slug: null, content: '' }
+
+  const pushCurrent = () => {
+    if (current.content.trim()) {
+      sections.push({ ...current, content: current.content.trim() })
+    }
+  }
+
+  for (const block of blocks) {
+    if (block.type === 'heading') {
+      pushCurrent()
+      current = {
+        heading: block.text,
+        headingPath: trackHeadingPath(block.depth, block.text),
+        // Ids are used as written, as that is how the page links to them
+        slug: block.id ?? slugger.slug(block.text),
+        // Include the heading in the content, as with markdown sections
+        content: `${'#'.repeat(block.depth)} ${block.text}`,
+      }
+    } else {
+      current.content += `\n\n${block.text}`
+    }
+  }
+
+  pushCurrent()
+
+  // If no sections were created, create one with the text of the entire document
+  if (sections.length === 0) {
+    sections.push({
+      heading: null,
+      headingPath: [],
+      slug: null,
+      content: inlineText(tree).trim(),
+    })
+  }
+
+  return sections
+}
+
+/**
+ * Finds the element holding the main content, falling back to the whole document.
+ */
+function findContentRoot(tree: Root): Root | Element {
+  return (
+    findElement(tree, (element) => element.tagName === 'main') ??
+    findElement(tree, (element) => element.properties?.role === 'main') ??
+    findElement(tree, (element) => element.tagName === 'article') ??
+    tree
+  )
+}
+
+function findElement(
+  node: Root | Element,
+  predicate: (element: Element) => boolean
+): Element | undefined {
+  for (const child of node.children) {
+    if (child.type !== 'element' || isRemoved(child)) {
+      continue
+    }
+
+    if (predicate(child)) {
+      return child
+    }
+
+    const match = findElement(child, predicate)
+    if (match) {
+      return match
+    }
+  }
+}
+
+function isRemoved(element: Element) {
+  const { role, hidden, ariaHidden, className } = element.properties ?? {}
+
+  return (
+    removedTagNames.has(element.tagName) ||
+    removedRoles.has(String(role)) ||
+    hidden === true ||
+    ariaHidden === 'true' ||
+    (Array.isArray(className) && className.some((name) => removedClassNames.has(String(name))))
+  )
+}
+
+function isBlock(node: RootContent) {
+  return node.type === 'element' && blockTagNames.has(node.tagName)
+}
+
+/**
+ * Flattens an element into headings and blocks of text, in document order.
+ * Runs of inline content between block elements become their own text block.
+ */
+function toBlocks(node: Root | Element): Block[] {
+  if (node.type === 'element') {
+    if (isRemoved(node)) {
+      return []
+    }
+
+    if (headingTagNames.has(node.tagName)) {
+      const text = collapsedText(node)
+      const id = node.properties?.id
+
+      return text
+        ? [{ type: 'heading', depth: Number(node.tagName[1]), text, id: id ? String(id) : null }]
+        : []
+    }
+
+    switch (node.tagName) {
+      case 'ul':
+      case 'ol':
+        return textBlock(listText(node))
+      case 'table':
+        return textBlock(tableText(node))
+      case 'pre':
+        return textBlock(preformattedText(node))
+    }
+  }
+
+  const blocks: Block[] = []
+  let inline: RootContent[] = []
+
+  const flushInline = () => {
+    blocks.push(...textBlock(inline.map(inlineText).join('')))
+    inline = []
+  }
+
+  for (const child of node.children) {
+    if (isBlock(child)) {
+      flushInline()
+      blocks.push(...toBlocks(child as Element))
+    } else {
+      inline.push(child)
+    }
+  }
+
+  flushInline()
+
+  return blocks
+}
+
+function textBlock(text: string): Block[] {
+  const trimmed = text
+    .split('\n')
+    .map((line) => line.trimEnd())
+    .join('\n')
+    .trim()
+
+  return trimmed ? [{ type: 'text', text: trimmed }] : []
+}
+
+/**
+ * Collects the text of a node with whitespace collapsed, as a browser would render it.
+ */
+function inlineText(node: Root | RootContent): string {
+  switch (node.type) {
+    case 'text':
+      return node.value.replace(/\s+/g, ' ')
+    case 'root':
+      return node.children.map(inlineText).join('').trim()
+    case 'element': {
+      if (isRemoved(node)) {
+        return ''
+      }
+
+      if (node.tagName === 'br') {
+        return '\n'
+      }
+
+      if (node.tagName === 'img') {
+        const alt = node.properties?.alt
+        return alt ? String(alt) : ''
+      }
+
+      const text = node.children.map(inlineText).join('')
+
+      return isBlock(node) ? ` ${text.trim()} ` : text
+    }
+    default:
+      return ''
+  }
+}
+
+function preformattedText(node: Root | RootContent): string {
+  switch (node.type) {
+    case 'text':
+      return node.value
+    case 'element':
+      return node.tagName === 'br' ? '\n' : node.children.map(preformattedText).join('')
+    default:
+      return ''
+  }
+}
+
+/**
+ * Renders a list as markdown-style bullets, indenting nested lists.
+ */
+function listText(list: Element, depth = 0): string {
+  const indent = '  '.repeat(depth)
+  const items = childElements(list, 'li')
+
+  return items
+    .map((item, i) => {
+      const marker = list.tagName === 'ol' ? `${i + 1}.` : '-'
+      const nestedLists = item.children.filter(
+        (child): child is Element =>
+          child.type === 'element' && (child.tagName === 'ul' || child.tagName === 'ol')
+      )
+      const text = item.children
+        .filter((child) => !nestedLists.includes(child as Element))
+        .map(inlineText)
+        .join('')
+        .replace(/\s+/g, ' ')
+        .trim()
+
+      return [`${indent}${marker} ${text}`, ...nestedLists.map((l) => listText(l, depth + 1))].join(
+        '\n'
+      )
+    })
+    .join('\n')
+}
+
+/**
+ * Renders a table one row per line. When the table has a header row, each cell is
+ * labelled with its column header so rows read as standalone statements.
+ */
+function tableText(table: Element): string {
+  const caption = childElements(table, 'caption').map(collapsedText).join(' ')
+  const rows = [
+    ...childElements(table, 'tr'),
+    ...['thead', 'tbody', 'tfoot'].flatMap((tagName) =>
+      childElements(table, tagName).flatMap((group) => childElements(group, 'tr'))
+    ),
+  ]
+    .map((row) => childElements(row, 'th', 'td'))
+    .filter((cells) => cells.length > 0)
+
+  const [firstRow] = rows
+  const hasHeader = firstRow?.every((cell) => cell.tagName === 'th')
+  const headers = hasHeader ? firstRow.map(collapsedText) : []
+  const bodyRows = hasHeader ? rows.slice(1) : rows
+
+  const lines = bodyRows.map((cells) =>
+    cells
+      .map((cell, i) => {
+        const text = collapsedText(cell)
+        return headers[i] && text ? `${headers[i]}: ${text}` : text
+      })
+      .filter(Boolean)
+      .join(hasHeader ? '; ' : ' | ')
+  )
+
+  // A table with only a header row still carries its column names
+  if (hasHeader && bodyRows.length === 0) {
+    lines.push(headers.join(' | '))
+  }
+
+  return [caption, ...lines].filter(Boolean).join('\n')
+}
+
+function collapsedText(element: Element) {
+  return inlineText(element).replace(/\s+/g, ' ').trim()
+}
+
+function childElements(node: Element, ...tagNames: string[]) {
+  return node.children.filter(
+    (child): child is Element => child.type === 'element' && tagNames.includes(child.tagName)
+  )
+}
@@ -0,0 +1,436 @@
+import { chunkSections, ChunkOptions, SectionChunk } from '@/lib/chunks'
+import { generateChecksum } from '@/lib/checksum'
+import { batchEmbeddingInputs, createEmbeddings, EmbeddingProvider } from '@/lib/embeddings'
+import { ApplicationError, IngestionError, UpstreamError, UserError } from '@/lib/errors'
+import { breadcrumbSeparator } from '@/lib/headings'
+import { extractFrontmatter } from '@/lib/markdown'
+import { ContentType, processContent } from '@/lib/sections'
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+export interface IngestOptions {
+  content: string
+  type: ContentType
+  source: string
+  path: string
+  /** Path of the parent page, takes precedence over `parentPageId` */
+  parentPath?: string
+  parentPageId?: number | null
+  meta?: Record<string, any>
+  chunkOptions: ChunkOptions
+  /** Prepend the page title to the heading breadcrumb embedded with every section */
+  prependTitle?: boolean
+  /** Re-chunk the page even if its checksum is unchanged */
+  force?: boolean
+}
+
+export interface IngestResult {
+  status: 'created' | 'updated' | 'skipped'
+  page: Record<string, any>
+  sections: number
+  unchanged: number
+  removed: number
+}
+
+/**
+ * What besides the content and chunking decides whether a page must be ingested again.
+ */
+export interface PageChecksumOptions {
+  title?: string
+  type: ContentType
+  source: string
+  /** The page meta, with the frontmatter merged in */
+  meta?: Record<string, any>
+  parentPath?: string
+  parentPageId?: number | null
+}
+
+export const defaultPrependTitle = process.env.EMBEDDING_PREPEND_TITLE !== 'false'
+
+/**
+ * Splits a document into sections and stores their embeddings.
+ *
+ * Unchanged documents are skipped by checksum and unchanged sections keep their rows.
+ * New sections are embedded into a staging table and swapped in at once, together with the
+ * page itself, so a failed ingestion leaves the previously stored page and sections in place.
+ */
+export async function ingestPage(
+  supabaseClient: SupabaseClient,
+  embeddingProvider: EmbeddingProvider,
+  options: IngestOptions
+): Promise<IngestResult> {
+  const {
+    content,
+    type,
+    source,
+    path,
+    parentPath,
+    chunkOptions,
+    prependTitle = defaultPrependTitle,
+    force = false,
+  } = options
+
+  // A page can't be its own parent, as walking its descendants would never end
+  if (parentPath === path) {
+    throw new UserError('A page cannot be its own parent', { path, parentPath })
+  }
+
+  const meta = mergeFrontmatter(content, type, options.meta)
+  const title = prependTitle ? getPageTitle(meta) : ''
+
+  // Process the content into sections, splitting oversized ones into token-bounded chunks
+  const sections = chunkSections(processContent(content, type), chunkOptions, ({ headingPath }) =>
+    getEmbeddingPrefix(title, headingPath)
+  )
+  const breadcrumbs = sections.map(({ headingPath }) => getBreadcrumb(title, headingPath))
+
+  // Check for existing page in DB
+  const { error: fetchPageError, data: existingPage } = await supabaseClient
+    .from('nods_page')
+    .select('id, path, checksum, parentPage:parent_page_id(id, path)')
+    .filter('path', 'eq', path)
+    .limit(1)
+    .maybeSingle()
+
+  if (fetchPageError) {
+    throw fetchPageError
+  }
+
+  const checksum = await generatePageChecksum(content, chunkOptions, embeddingProvider, {
+    title,
+    type,
+    source,
+    meta,
+    parentPath,
+    parentPageId: options.parentPageId,
+  })
+
+  // Nothing changed since the last successful run, so there is nothing to embed
+  if (!force && existingPage?.checksum === checksum) {
+    return {
+      status: 'skipped',
+      page: existingPage,
+      sections: 0,
+      unchanged: 0,
+      removed: 0,
+    }
+  }
+
+  // Find parent page if parentPath is provided
+  let parentPageId = options.parentPageId ?? null
+  if (parentPath) {
+    const { error: fetchParentPageError, data: parentPage } = await supabaseClient
+      .from('nods_page')
+      .select()
+      .filter('path', 'eq', parentPath)
+      .limit(1)
+      .maybeSingle()
+
+    if (fetchParentPageError) {
+      throw fetchParentPageError
+    }
+
+    if (parentPage) {
+      parentPageId = parentPage.id
+    }
+  }
+
+  // Diff the new sections against the stored ones by checksum so that unchanged
+  // sections keep their rows and only new or modified sections are re-embedded
+  const sectionChecksums = await Promise.all(
+    sections.map(({ heading, slug, chunkIndex, content: sectionContent }, i) =>
+      generateChecksum(
+        JSON.stringify([
+          heading,
+          slug,
+          chunkIndex,
+          sectionContent,
+          ...(breadcrumbs[i] ? [breadcrumbs[i]] : []),
+        ])
+      )
+    )
+  )
+
+  const existingSections = existingPage
+    ? await fetchExistingSections(supabaseClient, embeddingProvider, existingPage.id)
+    : []
+
+  const { changedSections, keptSectionIds, keptSectionPositions, staleSectionIds } = diffSections(
+    sections,
+    sectionChecksums,
+    existingSections
+  )
+
+  // Embed new or modified sections into the staging table in batches. The sections
+  // currently stored for the page keep serving searches until the swap below.
+  const ingestId = crypto.randomUUID()
+  let embeddingDimensions = embeddingProvider.dimensions
+  const embeddingInputs = changedSections.map(({ index, content }) =>
+    getEmbeddingInput(breadcrumbs[index], content)
+  )
+  const batches = batchEmbeddingInputs(embeddingInputs)
+
+  for (const batch of batches) {
+    const batchSections = batch.map((i) => changedSections[i])
+
+    try {
+      const embeddings = await createEmbeddings(
+        embeddingProvider,
+        batch.map((i) => embeddingInputs[i])
+      )
+
+      const { error: insertStagedSectionsError } = await supabaseClient
+        .from('nods_page_section_staging')
+        .insert(
+          batchSections.map(
+            (
+              { index, slug, heading, headingPath, chunkIndex, content: sectionContent, checksum },
+              i
+            ) => ({
+              ingest_id: ingestId,
+              page_id: existingPage?.id ?? null,
+              slug,
+              heading,
+              heading_path: headingPath,
+              chunk_index: chunkIndex,
+              position: index,
+              content: sectionContent,
+              checksum,
+              token_count: embeddings[i].tokenCount,
+              embedding: embeddings[i].embedding,
+              embedding_model: embeddingProvider.model,
+              embedding_dimensions: embeddings[i].embedding.length,
+            })
+          )
+        )
+
+      if (insertStagedSectionsError) {
+        throw insertStagedSectionsError
+      }
+
+      embeddingDimensions ??= embeddings[0].embedding.length
+    } catch (err) {
+      const first = batchSections[0]
+      const last = batchSections[batchSections.length - 1]
+
+      console.error(`Failed to generate embeddings for section: ${first.heading || 'Untitled'}`)
+
+      await discardStagedSections(supabaseClient, ingestId)
+
+      const message =
+        first === last
+          ? `Failed to generate embeddings for section ${first.index + 1}`
+          : `Failed to generate embeddings for sections ${first.index + 1} to ${last.index + 1}`
+      const data = {
+        sections: batchSections.map(({ index, heading, slug, chunkIndex }) => ({
+          index,
+          heading,
+          slug,
+          chunkIndex,
+        })),
+        cause: err instanceof ApplicationError ? err.data : err,
+      }
+
+      // Keep transient failures distinguishable so callers can retry the whole page later
+      if (err instanceof UpstreamError) {
+        throw new UpstreamError(message, data, err.status, err.retryAfterMs)
+      }
+
+      throw new IngestionError(message, data)
+    }
+  }
+
+  // Atomically write the page, replace stale sections with the staged ones and record the
+  // new checksum. Until then the page keeps its previous state.
+  const { error: swapSectionsError, data: page } = await supabaseClient
+    .rpc('swap_page_sections', {
+      ingest_id: ingestId,
+      target_path: path,
+      page_type: type,
+      page_source: source,
+      page_meta: meta ?? null,
+      page_content: content,
+      page_parent_id: parentPageId,
+      keep_section_ids: keptSectionIds,
+      keep_section_positions: keptSectionPositions,
+      new_checksum: checksum,
+      target_model: embeddingProvider.model,
+      target_dimensions: embeddingDimensions,
+    })
+    .select('id, path, checksum, type, source, meta, parent_page_id')
+    .single()
+
+  if (swapSectionsError) {
+    await discardStagedSections(supabaseClient, ingestId)
+    throw new ApplicationError('Failed to swap in page sections', swapSectionsError)
+  }
+
+  return {
+    status: existingPage ? 'updated' : 'created',
+    page,
+    sections: changedSections.length,
+    unchanged: keptSectionIds.length,
+    removed: staleSectionIds.length,
+  }
+}
+
+/**
+ * Returns the text embedded for a section: its breadcrumb, when it has one, followed by
+ * its content.
+ */
+export function getEmbeddingInput(breadcrumb: string, content: string) {
+  return breadcrumb ? `${breadcrumb}\n\n${content}` : content
+}
+
+/**
+ * Returns the text embedded in front of every chunk of a section, see `getEmbeddingInput`.
+ */
+export function getEmbeddingPrefix(title: string, headingPath: string[]) {
+  return getEmbeddingInput(getBreadcrumb(title, headingPath), '')
+}
+
+/**
+ * Merges the frontmatter of markdown content into page metadata. Metadata passed by the
+ * caller takes precedence over the frontmatter.
+ */
+export function mergeFrontmatter(
+  content: string,
+  type: ContentType,
+  meta?: Record<string, any>
+): Record<string, any> | undefined {
+  const frontmatter = type === 'markdown' ? extractFrontmatter(content) : {}
+
+  return Object.keys(frontmatter).length > 0 ? { ...frontmatter, ...meta } : meta
+}
+
+/**
+ * Returns the title prepended to the embedding input of a page's sections. Giving every
+ * section the page title helps match sections that don't repeat it.
+ */
+export function getPageTitle(meta?: Record<string, any>) {
+  return typeof meta?.title === 'string' ? meta.title.trim() : ''
+}
+
+/**
+ * Returns the breadcrumb embedded with a section: the page title followed by the headings
+ * enclosing the section. A top-level heading repeating the title is only included once.
+ */
+export function getBreadcrumb(title: string, headingPath: string[]) {
+  const path = title && headingPath[0] === title ? headingPath : [title, ...headingPath]
+
+  return path.filter(Boolean).join(breadcrumbSeparator)
+}
+
+/**
+ * Generates the checksum stored on a page. It covers the content, the options it was chunked
+ * with, the model it is embedded with, the title prepended to its sections and the page's
+ * type, source, meta and parent, so changing any of them ingests the page again.
+ */
+export function generatePageChecksum(
+  content: string,
+  chunkOptions: ChunkOptions,
+  embeddingProvider: EmbeddingProvider,
+  { title = '', type, source, meta = {}, parentPath, parentPageId = null }: PageChecksumOptions
+) {
+  return generateChecksum(
+    JSON.stringify([
+      content,
+      chunkOptions,
+      embeddingProvider.model,
+      embeddingProvider.dimensions,
+      title,
+      type,
+      source,
+      meta,
+      parentPath ?? parentPageId,
+    ])
+  )
+}
+
+/**
+ * Matches new sections against stored ones by checksum.
+ * Each stored row can only be claimed once, so duplicate sections are handled correctly.
+ * Kept rows are returned with their new position in the page, as sections around them
+ * may have been added or removed.
+ */
+function diffSections(
+  sections: SectionChunk[],
+  sectionChecksums: string[],
+  existingSections: { id: number; checksum: string | null }[]
+) {
+  const unclaimed = new Map<string, number[]>()
+  for (const { id, checksum } of existingSections) {
+    if (checksum) {
+      unclaimed.set(checksum, [...(unclaimed.get(checksum) ?? []), id])
+    }
+  }
+
+  // Stored section id to the index of the section it is kept for
+  const keptSections = new Map<number, number>()
+  const changedSections: (SectionChunk & { index: number; checksum: string })[] = []
+
+  sections.forEach((section, i) => {
+    const checksum = sectionChecksums[i]
+    const id = unclaimed.get(checksum)?.shift()
+
+    if (id === undefined) {
+      changedSections.push({ ...section, index: i, checksum })
+    } else {
+      keptSections.set(id, i)
+    }
+  })
+
+  const staleSectionIds = existingSections.map(({ id }) => id).filter((id) => !keptSections.has(id))
+
+  return {
+    changedSections,
+    keptSectionIds: Array.from(keptSections.keys()),
+    keptSectionPositions: Array.from(keptSections.values()),
+    staleSectionIds,
+  }
+}
+
+/**
+ * Fetches the stored sections of a page that can be kept, i.e. those embedded with the
+ * current model.
+ */
+async function fetchExistingSections(
+  supabaseClient: SupabaseClient,
+  embeddingProvider: EmbeddingProvider,
+  pageId: number
+) {
+  let existingSectionsQuery = supabaseClient
+    .from('nods_page_section')
+    .select('id, checksum')
+    .filter('page_id', 'eq', pageId)
+    .filter('embedding_model', 'eq', embeddingProvider.model)
+
+  if (embeddingProvider.dimensions) {
+    existingSectionsQuery = existingSectionsQuery.filter(
+      'embedding_dimensions',
+      'eq',
+      embeddingProvider.dimensions
+    )
+  }
+
+  const { error, data } = await existingSectionsQuery
+
+  if (error) {
+    throw error
+  }
+
+  return data
+}
+
+/**
+ * Removes the staged sections of a failed ingestion.
+ */
+async function discardStagedSections(supabaseClient: SupabaseClient, ingestId: string) {
+  const { error } = await supabaseClient
+    .from('nods_page_section_staging')
+    .delete()
+    .filter('ingest_id', 'eq', ingestId)
+
+  if (error) {
+    console.error(`Failed to discard staged sections for ingestion ${ingestId}`, error)
+  }
+}
@@ -0,0 +1,163 @@
+import { UserError } from '@/lib/errors'
+import { createHeadingPathTracker } from '@/lib/headings'
+import type { Section } from '@/lib/sections'
+import GithubSlugger from 'github-slugger'
+import type { Content, Parent, Root } from 'mdast'
+import { fromMarkdown } from 'mdast-util-from-markdown'
+import { frontmatterFromMarkdown } from 'mdast-util-frontmatter'
+import { mdxFromMarkdown } from 'mdast-util-mdx'
+import { toMarkdown } from 'mdast-util-to-markdown'
+import { toString } from 'mdast-util-to-string'
+import { frontmatter } from 'micromark-extension-frontmatter'
+import { mdxjs } from 'micromark-extension-mdxjs'
+import { u } from 'unist-builder'
+import { filter } from 'unist-util-filter'
+import { parse as parseYaml } from 'yaml'
+
+// MDX nodes that carry code rather than content
+const mdxCodeNodeTypes = ['mdxjsEsm', 'mdxFlowExpression', 'mdxTextExpression']
+
+// MDX JSX nodes whose children are kept as regular content
+const mdxJsxNodeTypes = ['mdxJsxFlowElement', 'mdxJsxTextElement']
+
+/**
+ * Parses markdown or MDX into an mdast tree and splits it into one section per heading.
+ *
+ * Headings inside fenced code are part of the code node and never start a section.
+ * ESM imports/exports and expressions are dropped, and JSX elements are replaced by their children.
+ * YAML frontmatter is left out of the sections.
+ */
+export function processMarkdown(content: string): Section[] {
+  const { children } = stripMdx(parseMarkdown(content))
+  const slugger = new GithubSlugger()
+  const trackHeadingPath = createHeadingPathTracker()
+
+  // Frontmatter is page metadata rather than content, see `extractFrontmatter`
+  const tree = u(
+    'root',
+    children.filter((node) => node.type !== 'yaml')
+  )
+
+  return (
+    splitTreeBy(tree, (node) => node.type === 'heading')
+      .map((sectionTree): Section => {
+        const [firstNode] = sectionTree.children
+        const heading = firstNode?.type === 'heading' ? toString(firstNode) : null
+
+        return {
+          heading,
+          headingPath:
+            firstNode?.type === 'heading' && heading !== null
+              ? trackHeadingPath(firstNode.depth, heading)
+              : [],
+          slug: heading ? slugger.slug(heading) : null,
+          content: toMarkdown(sectionTree).trim(),
+        }
+      })
+      // Documents with nothing left once stripped (e.g. only imports) have no sections
+      .filter(({ content }) => content.length > 0)
+  )
+}
+
+/**
+ * Parses the YAML frontmatter at the start of a markdown document into an object.
+ * Returns an empty object when there is no frontmatter.
+ */
+export function extractFrontmatter(content: string): Record<string, any> {
+  const tree = fromMarkdown(content, {
+    extensions: [frontmatter(['yaml'])],
+    mdastExtensions: [frontmatterFromMarkdown(['yaml'])],
+  })
+
+  const [firstNode] = tree.children
+
+  if (firstNode?.type !== 'yaml') {
+    return {}
+  }
+
+  let data: unknown
+  try {
+    data = parseYaml(firstNode.value)
+  } catch (err) {
+    throw new UserError('Invalid YAML frontmatter', {
+      message: err instanceof Error ? err.message : String(err),
+    })
+  }
+
+  // Only a mapping can be merged into page metadata
+  return data && typeof data === 'object' && !Array.isArray(data) ? data : {}
+}
+
+/**
+ * Parses content as MDX, falling back to plain markdown when it isn't valid MDX
+ * (e.g. a stray `<` or `{` in prose).
+ */
+function parseMarkdown(content: string): Root {
+  try {
+    return fromMarkdown(content, {
+      extensions: [frontmatter(['yaml']), mdxjs()],
+      mdastExtensions: [frontmatterFromMarkdown(['yaml']), mdxFromMarkdown()],
+    })
+  } catch {
+    return fromMarkdown(content, {
+      extensions: [frontmatter(['yaml'])],
+      mdastExtensions: [frontmatterFromMarkdown(['yaml'])],
+    })
+  }
+}
+
+/**
+ * Removes MDX code nodes and unwraps MDX JSX elements so the tree only holds plain markdown.
+ */
+function stripMdx(tree: Root): Root {
+  const filtered = filter(tree, (node) => !mdxCodeNodeTypes.includes(node.type)) as Root | null
+
+  if (!filtered) {
+    return u('root', [])
+  }
+
+  return unwrapJsx(filtered)
+}
+
+function unwrapJsx<T extends Parent>(node: T): T {
+  const children = node.children.flatMap((child): Content[] => {
+    if (mdxJsxNodeTypes.includes(child.type)) {
+      return unwrapJsx(child as Parent).children
+    }
+
+    return 'children' in child ? [unwrapJsx(child)] : [child]
+  })
+
+  // Removed expressions can leave whitespace at the edges of a paragraph,
+  // which would otherwise be serialized as character references
+  if (node.type === 'paragraph') {
+    const first = children[0]
+    if (first?.type === 'text') {
+      children[0] = { ...first, value: first.value.trimStart() }
+    }
+
+    const last = children[children.length - 1]
+    if (last?.type === 'text') {
+      children[children.length - 1] = { ...last, value: last.value.trimEnd() }
+    }
+  }
+
+  return { ...node, children }
+}
+
+/**
+ * Splits a top-level mdast tree into multiple trees, starting a new tree at each node
+ * matching the predicate.
+ */
+function splitTreeBy(tree: Root, predicate: (node: Content) => boolean): Root[] {
+  return tree.children.reduce<Root[]>((trees, node) => {
+    const [lastTree] = trees.slice(-1)
+
+    if (!lastTree || predicate(node)) {
+      return [...trees, u('root', [node])]
+    }
+
+    lastTree.children.push(node)
+    return trees
+  }, [])
+}
@@ -0,0 +1,127 @@
+import { ChunkOptions, chunkSections } from '@/lib/chunks'
+import {
+  defaultPrependTitle,
+  getBreadcrumb,
+  getEmbeddingInput,
+  getEmbeddingPrefix,
+  getPageTitle,
+  mergeFrontmatter,
+} from '@/lib/ingest'
+import { ContentType, processContent } from '@/lib/sections'
+import GPT3Tokenizer from 'gpt3-tokenizer'
+
+export interface SectionPreview {
+  heading: string | null
+  /** Headings enclosing the section, from the top-level heading down to its own */
+  headingPath: string[]
+  slug: string | null
+  tokenCount: number
+  /** Chunk token counts include the breadcrumb embedded with the chunk */
+  chunks: { chunkIndex: number; tokenCount: number; contentLength: number }[]
+  /** The section exceeds `maxTokens` and is split into several chunks */
+  oversized: boolean
+  /** Chunks too short to ever be returned by `vector-search` */
+  droppedChunks: number
+}
+
+export interface PreviewOptions {
+  /** The page meta, its `title` is embedded with every section */
+  meta?: Record<string, any>
+  prependTitle?: boolean
+}
+
+export interface IngestionPreview {
+  sections: SectionPreview[]
+  sectionCount: number
+  chunkCount: number
+  tokenCount: number
+  estimatedCost: {
+    model: string
+    /** USD per 1000 tokens, `null` when the model's price is unknown */
+    pricePer1kTokens: number | null
+    usd: number | null
+  }
+}
+
+// Sections shorter than this are never matched, see the `vector-search` route
+export const minSearchableContentLength = 50
+
+// Published USD prices per 1000 input tokens
+const modelPricePer1kTokens: Record<string, number> = {
+  'text-embedding-ada-002': 0.0001,
+  'text-embedding-3-small': 0.00002,
+  'text-embedding-3-large': 0.00013,
+}
+
+/**
+ * Reports how a document would be split and embedded, without storing anything or
+ * calling the embedding provider. Token counts are estimated with the GPT-3 tokenizer, on
+ * the same inputs `ingestPage` embeds.
+ */
+export function previewIngestion(
+  content: string,
+  type: ContentType,
+  chunkOptions: ChunkOptions,
+  model: string,
+  { meta, prependTitle = defaultPrependTitle }: PreviewOptions = {}
+): IngestionPreview {
+  const tokenizer = new GPT3Tokenizer({ type: 'gpt3' })
+  const countTokens = (text: string) => tokenizer.encode(text.replace(/\n/g, ' ')).bpe.length
+  const title = prependTitle ? getPageTitle(mergeFrontmatter(content, type, meta)) : ''
+
+  const processedSections = processContent(content, type)
+
+  // All sections are chunked at once, numbered to tell their chunks apart
+  const chunks = chunkSections(
+    processedSections.map((section, index) => ({ ...section, index })),
+    chunkOptions,
+    ({ headingPath }) => getEmbeddingPrefix(title, headingPath),
+    tokenizer
+  )
+
+  const sections = processedSections.map((section, index) => {
+    const breadcrumb = getBreadcrumb(title, section.headingPath)
+    const sectionChunks = chunks
+      .filter((chunk) => chunk.index === index)
+      .map(({ chunkIndex, content: chunkContent }) => ({
+        chunkIndex,
+        tokenCount: countTokens(getEmbeddingInput(breadcrumb, chunkContent)),
+        contentLength: chunkContent.length,
+      }))
+
+    return {
+      heading: section.heading,
+      headingPath: section.headingPath,
+      slug: section.slug,
+      tokenCount: countTokens(section.content),
+      chunks: sectionChunks,
+      oversized: sectionChunks.length > 1,
+      droppedChunks: sectionChunks.filter(
+        ({ contentLength }) => contentLength < minSearchableContentLength
+      ).length,
+    }
+  })
+
+  const chunkCount = sections.reduce((sum, { chunks }) => sum + chunks.length, 0)
+  const tokenCount = sections.reduce(
+    (sum, { chunks }) => sum + chunks.reduce((total, chunk) => total + chunk.tokenCount, 0),
+    0
+  )
+
+  const configuredPrice = process.env.EMBEDDING_PRICE_PER_1K_TOKENS
+  const pricePer1kTokens = configuredPrice
+    ? Number(configuredPrice)
+    : modelPricePer1kTokens[model] ?? null
+
+  return {
+    sections,
+    sectionCount: sections.length,
+    chunkCount,
+    tokenCount,
+    estimatedCost: {
+      model,
+      pricePer1kTokens,
+      usd: pricePer1kTokens === null ? null : (tokenCount / 1000) * pricePer1kTokens,
+    },
+  }
+}
@@ -0,0 +1,144 @@
+import type { AuthorizedKey } from '@/lib/auth'
+import { EmbeddingProvider } from '@/lib/embeddings'
+import { ApplicationError, RateLimitError } from '@/lib/errors'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { NextRequest } from 'next/server'
+
+export interface RateLimitOptions {
+  /** Requests allowed per minute, 0 for no limit */
+  requestsPerMinute: number
+  /** Tokens that may be embedded or generated per day (UTC), 0 for no quota */
+  dailyTokenQuota: number
+}
+
+export interface RateLimit {
+  /** `RateLimit-*` headers describing the request limit, for successful responses */
+  headers: Record<string, string>
+  /**
+   * Wraps a provider so the tokens it embeds count towards the daily quota. Wrap the
+   * provider underneath the embedding cache, so cache hits don't count.
+   */
+  meter(provider: EmbeddingProvider): EmbeddingProvider
+  /** Counts tokens spent outside an embedding provider, e.g. on a chat completion */
+  recordTokens(tokenCount: number): Promise<void>
+}
+
+export const defaultRateLimitOptions: RateLimitOptions = {
+  requestsPerMinute: Number(process.env.RATE_LIMIT_REQUESTS_PER_MINUTE ?? 60),
+  dailyTokenQuota: Number(process.env.RATE_LIMIT_DAILY_TOKENS ?? 1000000),
+}
+
+const requestWindowSeconds = 60
+const tokenWindowSeconds = 24 * 60 * 60
+
+/**
+ * Counts a request against the per-minute limit of its API key and checks the key's daily
+ * token quota, throwing a `RateLimitError` when either is used up. Requests made with the
+ * `ADMIN_API_KEY` are limited per client IP instead.
+ *
+ * Counters are kept in Postgres (`rate_limit_counter`), so limits hold across edge instances.
+ */
+export async function enforceRateLimit(
+  req: NextRequest,
+  supabaseClient: SupabaseClient,
+  apiKey: AuthorizedKey
+): Promise<RateLimit> {
+  const subject = apiKey.id !== null ? `key:${apiKey.id}` : `ip:${getClientIp(req)}`
+  const requestsPerMinute = apiKey.requestsPerMinute ?? defaultRateLimitOptions.requestsPerMinute
+  const dailyTokenQuota = apiKey.dailyTokenQuota ?? defaultRateLimitOptions.dailyTokenQuota
+
+  const [requests, tokens] = await Promise.all([
+    requestsPerMinute > 0
+      ? hitRateLimit(supabaseClient, subject, 'requests', requestWindowSeconds, 1)
+      : null,
+    dailyTokenQuota > 0
+      ? hitRateLimit(supabaseClient, subject, 'tokens', tokenWindowSeconds, 0)
+      : null,
+  ])
+
+  const headers: Record<string, string> = {}
+
+  if (requests) {
+    Object.assign(headers, {
+      'RateLimit-Limit': String(requestsPerMinute),
+      'RateLimit-Remaining': String(Math.max(0, requestsPerMinute - requests.count)),
+      'RateLimit-Reset': String(requests.resetSeconds),
+      'RateLimit-Policy': `${requestsPerMinute};w=${requestWindowSeconds}`,
+    })
+
+    if (requests.count > requestsPerMinute) {
+      throw new RateLimitError(
+        `Rate limit of ${requestsPerMinute} requests per minute exceeded`,
+        { limit: requestsPerMinute, retryAfter: requests.resetSeconds },
+        { ...headers, 'Retry-After': String(requests.resetSeconds) }
+      )
+    }
+  }
+
+  if (tokens && tokens.count >= dailyTokenQuota) {
+    throw new RateLimitError(
+      `Daily quota of ${dailyTokenQuota} tokens exceeded`,
+      { quota: dailyTokenQuota, used: tokens.count, retryAfter: tokens.resetSeconds },
+      { ...headers, 'Retry-After': String(tokens.resetSeconds) }
+    )
+  }
+
+  async function recordTokens(tokenCount: number) {
+    if (dailyTokenQuota > 0 && tokenCount > 0) {
+      await hitRateLimit(supabaseClient, subject, 'tokens', tokenWindowSeconds, tokenCount)
+    }
+  }
+
+  return {
+    headers,
+    recordTokens,
+    meter(provider) {
+      if (dailyTokenQuota <= 0) {
+        return provider
+      }
+
+      return {
+        ...provider,
+        async embed(inputs) {
+          const results = await provider.embed(inputs)
+          const tokenCount = results.reduce((sum, result) => sum + result.tokenCount, 0)
+
+          // Tokens are spent once the provider answers, even if the request fails later on
+          await recordTokens(tokenCount)
+
+          return results
+        },
+      }
+    },
+  }
+}
+
+function getClientIp(req: NextRequest) {
+  return req.ip ?? req.headers.get('x-forwarded-for')?.split(',')[0].trim() ?? 'unknown'
+}
+
+async function hitRateLimit(
+  supabaseClient: SupabaseClient,
+  subject: string,
+  bucket: 'requests' | 'tokens',
+  windowSeconds: number,
+  amount: number
+) {
+  const { error, data } = await supabaseClient
+    .rpc('hit_rate_limit', {
+      target_subject: subject,
+      target_bucket: bucket,
+      window_seconds: windowSeconds,
+      amount,
+    })
+    .single<{ count: number; reset_at: string }>()
+
+  if (error) {
+    throw new ApplicationError('Failed to update rate limit counter', error)
+  }
+
+  return {
+    count: Number(data.count),
+    resetSeconds: Math.max(0, Math.ceil((Date.parse(data.reset_at) - Date.now()) / 1000)),
+  }
+}
@@ -0,0 +1,418 @@
+import { ChunkOptions } from '@/lib/chunks'
+import { EmbeddingProvider } from '@/lib/embeddings'
+import { ApplicationError, UpstreamError, UserError } from '@/lib/errors'
+import { ingestPage } from '@/lib/ingest'
+import { ContentType, contentTypes } from '@/lib/sections'
+import type { PostgrestFilterBuilder } from '@supabase/postgrest-js'
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+export interface ReindexFilters {
+  source?: string
+  type?: ContentType
+  pathPrefix?: string
+}
+
+export interface ReindexJob {
+  id: number
+  status: 'pending' | 'running' | 'completed' | 'cancelled'
+  filters: ReindexFilters
+  embedding_model: string | null
+  total_count: number
+  processed_count: number
+  failed_count: number
+  last_page_id: number
+  locked_until: string | null
+  created_at: string
+  updated_at: string
+  completed_at: string | null
+}
+
+export interface ReindexStatus {
+  job: ReindexJob
+  processed: number
+  failed: number
+  remaining: number
+  done: boolean
+}
+
+export interface RunOptions {
+  chunkOptions: ChunkOptions
+  /** How long a single run may process pages before returning */
+  timeBudgetMs?: number
+  /** Pause between pages to stay under the embedding provider's rate limits */
+  pageDelayMs?: number
+}
+
+const defaultTimeBudgetMs = Number(process.env.REINDEX_TIME_BUDGET_MS ?? 20000)
+const defaultPageDelayMs = Number(process.env.REINDEX_PAGE_DELAY_MS ?? 500)
+
+/**
+ * Validates re-index filters from a request.
+ */
+export function parseReindexFilters({ source, type, pathPrefix }: Record<string, any> = {}) {
+  const filters: ReindexFilters = {}
+
+  if (source !== undefined) {
+    if (typeof source !== 'string') {
+      throw new UserError('source must be a string', { source })
+    }
+    filters.source = source
+  }
+
+  if (type !== undefined) {
+    if (!contentTypes.includes(type)) {
+      throw new UserError(`Unsupported content type '${type}'`, { contentTypes })
+    }
+    filters.type = type
+  }
+
+  if (pathPrefix !== undefined) {
+    if (typeof pathPrefix !== 'string') {
+      throw new UserError('pathPrefix must be a string', { pathPrefix })
+    }
+    filters.pathPrefix = pathPrefix
+  }
+
+  return filters
+}
+
+/**
+ * Creates a job that re-chunks and re-embeds every page matching the filters.
+ */
+export async function createReindexJob(
+  supabaseClient: SupabaseClient,
+  embeddingProvider: EmbeddingProvider,
+  filters: ReindexFilters
+): Promise<ReindexStatus> {
+  const { error: countError, count } = await filterPages(
+    supabaseClient.from('nods_page').select('id', { count: 'exact', head: true }),
+    filters
+  )
+
+  if (countError) {
+    throw new ApplicationError('Failed to count pages to re-index', countError)
+  }
+
+  const { error: insertJobError, data: job } = await supabaseClient
+    .from('reindex_job')
+    .insert({
+      filters,
+      embedding_model: embeddingProvider.model,
+      total_count: count ?? 0,
+    })
+    .select()
+    .single()
+
+  if (insertJobError) {
+    throw new ApplicationError('Failed to create re-index job', insertJobError)
+  }
+
+  return getReindexStatus(supabaseClient, job.id)
+}
+
+/**
+ * Reports the progress of a job. Remaining pages are counted live from the job's cursor.
+ */
+export async function getReindexStatus(
+  supabaseClient: SupabaseClient,
+  jobId: number
+): Promise<ReindexStatus> {
+  const job = await fetchJob(supabaseClient, jobId)
+
+  if (!job) {
+    throw new UserError(`Re-index job ${jobId} not found`, { id: jobId }, 404)
+  }
+
+  return toStatus(supabaseClient, job)
+}
+
+/**
+ * Processes the pages of a job until it completes or the time budget runs out.
+ *
+ * Progress is saved after every page, so the job can be resumed by running it again after
+ * an interruption. A lease on the job prevents two runs from processing it at once, and a
+ * cancelled job stops before its next page.
+ * When the embedding provider stays rate limited, the run stops with an `UpstreamError`.
+ */
+export async function runReindexJob(
+  supabaseClient: SupabaseClient,
+  embeddingProvider: EmbeddingProvider,
+  jobId: number,
+  { chunkOptions, timeBudgetMs = defaultTimeBudgetMs, pageDelayMs = defaultPageDelayMs }: RunOptions
+): Promise<ReindexStatus> {
+  const deadline = Date.now() + timeBudgetMs
+  let job = await acquireJob(supabaseClient, jobId, timeBudgetMs)
+
+  if (job.embedding_model && job.embedding_model !== embeddingProvider.model) {
+    await releaseJob(supabaseClient, job)
+    throw new UserError(
+      `Re-index job ${jobId} was created for model ${job.embedding_model}, but ${embeddingProvider.model} is configured`
+    )
+  }
+
+  try {
+    while (Date.now() < deadline) {
+      // Stop once the job is cancelled, e.g. while the previous page was being processed
+      const currentJob = await fetchJob(supabaseClient, job.id)
+
+      if (!currentJob || currentJob.status === 'cancelled') {
+        job = currentJob ?? job
+        break
+      }
+
+      const { error: fetchPageError, data: page } = await filterPages(
+        supabaseClient
+          .from('nods_page')
+          .select('id, path, type, source, meta, content, parent_page_id'),
+        job.filters
+      )
+        .gt('id', job.last_page_id)
+        .order('id', { ascending: true })
+        .limit(1)
+        .maybeSingle()
+
+      if (fetchPageError) {
+        throw new ApplicationError('Failed to fetch next page to re-index', fetchPageError)
+      }
+
+      if (!page) {
+        job = await completeJob(supabaseClient, job)
+        break
+      }
+
+      const failure = await reindexPage(supabaseClient, embeddingProvider, page, chunkOptions)
+
+      if (failure) {
+        const { error: insertFailureError } = await supabaseClient
+          .from('reindex_job_failure')
+          .insert({ job_id: job.id, page_id: page.id, path: page.path, error: failure })
+
+        if (insertFailureError) {
+          console.error(`Failed to record re-index failure for ${page.path}`, insertFailureError)
+        }
+      }
+
+      job = await updateJob(supabaseClient, job.id, {
+        last_page_id: page.id,
+        processed_count: job.processed_count + (failure ? 0 : 1),
+        failed_count: job.failed_count + (failure ? 1 : 0),
+      })
+
+      if (Date.now() + pageDelayMs < deadline) {
+        await new Promise((resolve) => setTimeout(resolve, pageDelayMs))
+      }
+    }
+  } finally {
+    await releaseJob(supabaseClient, job)
+  }
+
+  return getReindexStatus(supabaseClient, job.id)
+}
+
+/**
+ * Stops a job from being processed any further.
+ */
+export async function cancelReindexJob(
+  supabaseClient: SupabaseClient,
+  jobId: number
+): Promise<ReindexStatus> {
+  const job = await fetchJob(supabaseClient, jobId)
+
+  if (!job) {
+    throw new UserError(`Re-index job ${jobId} not found`, { id: jobId }, 404)
+  }
+
+  if (job.status === 'completed' || job.status === 'cancelled') {
+    return toStatus(supabaseClient, job)
+  }
+
+  return toStatus(supabaseClient, await updateJob(supabaseClient, jobId, { status: 'cancelled' }))
+}
+
+async function reindexPage(
+  supabaseClient: SupabaseClient,
+  embeddingProvider: EmbeddingProvider,
+  page: Record<string, any>,
+  chunkOptions: ChunkOptions
+) {
+  if (!page.content) {
+    return {
+      message: 'Page has no stored content, submit it to /api/generate-embeddings again',
+    }
+  }
+
+  try {
+    await ingestPage(supabaseClient, embeddingProvider, {
+      content: page.content,
+      type: page.type ?? 'markdown',
+      source: page.source,
+      path: page.path,
+      parentPageId: page.parent_page_id,
+      meta: page.meta,
+      chunkOptions,
+      force: true,
+    })
+  } catch (err) {
+    // Stop the run without advancing past the page, it is retried when the job is resumed
+    if (err instanceof UpstreamError) {
+      throw err
+    }
+
+    console.error(`Failed to re-index ${page.path}`, err)
+
+    return err instanceof ApplicationError
+      ? { message: err.message, data: err.data }
+      : { message: err instanceof Error ? err.message : String(err) }
+  }
+}
+
+async function acquireJob(supabaseClient: SupabaseClient, jobId: number, timeBudgetMs: number) {
+  const now = new Date()
+  // Leave room for the page that is in flight when the time budget runs out
+  const lockedUntil = new Date(now.getTime() + timeBudgetMs * 2).toISOString()
+
+  const { error, data: job } = await supabaseClient
+    .from('reindex_job')
+    .update({ status: 'running', locked_until: lockedUntil, updated_at: now.toISOString() })
+    .eq('id', jobId)
+    .in('status', ['pending', 'running'])
+    .or(`locked_until.is.null,locked_until.lt.${now.toISOString()}`)
+    .select()
+    .maybeSingle()
+
+  if (error) {
+    throw new ApplicationError('Failed to acquire re-index job', error)
+  }
+
+  if (job) {
+    return job as ReindexJob
+  }
+
+  const existingJob = await fetchJob(supabaseClient, jobId)
+
+  if (!existingJob) {
+    throw new UserError(`Re-index job ${jobId} not found`, { id: jobId }, 404)
+  }
+
+  if (existingJob.status === 'completed' || existingJob.status === 'cancelled') {
+    throw new UserError(`Re-index job ${jobId} is ${existingJob.status}`)
+  }
+
+  throw new UserError(`Re-index job ${jobId} is already being processed`, {
+    lockedUntil: existingJob.locked_until,
+  })
+}
+
+async function releaseJob(supabaseClient: SupabaseClient, job: ReindexJob) {
+  const { error } = await supabaseClient
+    .from('reindex_job')
+    .update({ locked_until: null })
+    .eq('id', job.id)
+
+  if (error) {
+    console.error(`Failed to release re-index job ${job.id}`, error)
+  }
+}
+
+async function fetchJob(supabaseClient: SupabaseClient, jobId: number) {
+  const { error, data: job } = await supabaseClient
+    .from('reindex_job')
+    .select()
+    .eq('id', jobId)
+    .maybeSingle()
+
+  if (error) {
+    throw new ApplicationError('Failed to fetch re-index job', error)
+  }
+
+  return job as ReindexJob | null
+}
+
+async function updateJob(
+  supabaseClient: SupabaseClient,
+  jobId: number,
+  values: Partial<ReindexJob>
+): Promise<ReindexJob> {
+  const { error, data: job } = await supabaseClient
+    .from('reindex_job')
+    .update({ ...values, updated_at: new Date().toISOString() })
+    .eq('id', jobId)
+    .select()
+    .single()
+
+  if (error) {
+    throw new ApplicationError('Failed to update re-index job', error)
+  }
+
+  return job
+}
+
+/**
+ * Marks a job completed, unless it was cancelled in the meantime.
+ */
+async function completeJob(supabaseClient: SupabaseClient, job: ReindexJob): Promise<ReindexJob> {
+  const now = new Date().toISOString()
+
+  const { error, data: completedJob } = await supabaseClient
+    .from('reindex_job')
+    .update({ status: 'completed', completed_at: now, updated_at: now })
+    .eq('id', job.id)
+    .neq('status', 'cancelled')
+    .select()
+    .maybeSingle()
+
+  if (error) {
+    throw new ApplicationError('Failed to complete re-index job', error)
+  }
+
+  return completedJob ?? (await fetchJob(supabaseClient, job.id)) ?? job
+}
+
+async function toStatus(supabaseClient: SupabaseClient, job: ReindexJob): Promise<ReindexStatus> {
+  const done = job.status === 'completed' || job.status === 'cancelled'
+  let remaining = 0
+
+  if (!done) {
+    const { error, count } = await filterPages(
+      supabaseClient.from('nods_page').select('id', { count: 'exact', head: true }),
+      job.filters
+    ).gt('id', job.last_page_id)
+
+    if (error) {
+      throw new ApplicationError('Failed to count remaining pages', error)
+    }
+
+    remaining = count ?? 0
+  }
+
+  return {
+    job,
+    processed: job.processed_count,
+    failed: job.failed_count,
+    remaining,
+    done,
+  }
+}
+
+// Applies the job filters to a nods_page query
+function filterPages<T extends PostgrestFilterBuilder<any, any, any, any, any>>(
+  query: T,
+  { source, type, pathPrefix }: ReindexFilters
+): T {
+  let filtered = query
+
+  if (source) {
+    filtered = filtered.eq('source', source)
+  }
+
+  if (type) {
+    filtered = filtered.eq('type', type)
+  }
+
+  if (pathPrefix) {
+    // Escape LIKE wildcards so the prefix is matched literally
+    filtered = filtered.like('path', `${pathPrefix.replace(/[\\%_]/g, '\\$&')}%`)
+  }
+
+  return filtered
+}
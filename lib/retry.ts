@@ -0,0 +1,91 @@
+import { ApplicationError, UpstreamError } from '@/lib/errors'
+
+export interface RetryOptions {
+  /** Total number of attempts, including the first one */
+  maxAttempts: number
+  /** Give up once the next attempt would start after this much time */
+  maxElapsedMs: number
+  baseDelayMs: number
+  maxDelayMs: number
+}
+
+export const defaultRetryOptions: RetryOptions = {
+  maxAttempts: Number(process.env.UPSTREAM_RETRY_MAX_ATTEMPTS ?? 4),
+  maxElapsedMs: Number(process.env.UPSTREAM_RETRY_MAX_ELAPSED_MS ?? 30000),
+  baseDelayMs: 500,
+  maxDelayMs: 8000,
+}
+
+/**
+ * Runs an outbound model call, retrying transient failures with exponential backoff
+ * and full jitter. A `Retry-After` hint from the upstream service is always honored.
+ *
+ * Only `UpstreamError`s are retried. Once the attempts or the time budget are used up,
+ * the last failure is thrown with a `retryAfterMs` hint for the caller.
+ */
+export async function withRetry<T>(
+  operation: () => Promise<T>,
+  { maxAttempts, maxElapsedMs, baseDelayMs, maxDelayMs }: RetryOptions = defaultRetryOptions
+): Promise<T> {
+  const start = Date.now()
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await operation()
+    } catch (err) {
+      if (!(err instanceof UpstreamError)) {
+        throw err
+      }
+
+      const backoff = Math.random() * Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1))
+      const delay = Math.max(err.retryAfterMs ?? 0, backoff)
+
+      if (attempt >= maxAttempts || Date.now() - start + delay > maxElapsedMs) {
+        // Tell the caller how long to wait when the upstream service didn't
+        err.retryAfterMs ??= Math.min(maxDelayMs, baseDelayMs * 2 ** attempt)
+        throw err
+      }
+
+      console.warn(`${err.message}, retrying in ${Math.round(delay)}ms (attempt ${attempt})`)
+      await new Promise((resolve) => setTimeout(resolve, delay))
+    }
+  }
+}
+
+/**
+ * Creates the error for a failed upstream response: an `UpstreamError` when the request
+ * can be retried, otherwise an `ApplicationError`.
+ */
+export async function responseError(message: string, response: Response) {
+  const data = await response.json().catch(() => ({ status: response.status }))
+
+  if (response.status === 408 || response.status === 429 || response.status >= 500) {
+    return new UpstreamError(
+      message,
+      data,
+      response.status,
+      parseRetryAfter(response.headers.get('Retry-After'))
+    )
+  }
+
+  return new ApplicationError(message, data)
+}
+
+/**
+ * Parses a `Retry-After` header, which is either a number of seconds or an HTTP date.
+ */
+export function parseRetryAfter(value: string | null) {
+  if (!value) {
+    return undefined
+  }
+
+  const seconds = Number(value)
+  if (Number.isFinite(seconds)) {
+    return Math.max(seconds, 0) * 1000
+  }
+
+  const date = Date.parse(value)
+  if (!Number.isNaN(date)) {
+    return Math.max(date - Date.now(), 0)
+  }
+}
@@ -0,0 +1,345 @@
+import { ApplicationError, UserError } from '@/lib/errors'
+import { breadcrumbSeparator } from '@/lib/headings'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import GPT3Tokenizer from 'gpt3-tokenizer'
+
+/**
+ * A row returned by the `match_page_sections`, `keyword_match_page_sections` or
+ * `hybrid_match_page_sections` database functions.
+ */
+export interface PageSectionMatch {
+  id: number
+  page_id: number
+  path: string
+  slug: string | null
+  heading: string | null
+  heading_path: string[] | null
+  chunk_index: number
+  content: string
+  token_count: number | null
+  /** Similarity to the query embedding, null for sections only matched by keyword */
+  similarity: number | null
+  /** Full-text rank (`ts_rank_cd`), null or absent for sections only matched by embedding */
+  keyword_rank?: number | null
+  /** What the matches are ordered by: the keyword rank, or the fused rank of a hybrid search */
+  score?: number
+}
+
+export interface SearchResult {
+  id: number
+  pageId: number
+  path: string
+  heading: string | null
+  /** Headings enclosing the section, from the top-level heading down to its own */
+  headingPath: string[]
+  slug: string | null
+  /** Link to the section: the page path with the section's slug as anchor */
+  url: string
+  similarity: number | null
+  keywordRank: number | null
+  /** The similarity, keyword rank or fused score the results are ordered by */
+  score: number
+  tokenCount: number | null
+  content: string
+}
+
+/**
+ * A matched section an answer may cite, numbered as it appears in the prompt.
+ */
+export type AnswerSource = Omit<SearchResult, 'content' | 'tokenCount'> & { number: number }
+
+/**
+ * What `vector-search` responds with: `context` joins the matches into `contextText` for a
+ * prompt, `results` lists them with their page, heading, link and similarity, and `answer`
+ * streams a chat completion answering the query from the matches, citing them as sources.
+ */
+export const searchFormats = ['context', 'results', 'answer']
+
+/**
+ * How `vector-search` finds sections: by embedding similarity, by full-text keyword match, or
+ * both, fused with reciprocal rank fusion.
+ */
+export const searchModes = ['vector', 'keyword', 'hybrid']
+
+export interface MatchPageSectionsOptions {
+  mode: string
+  query: string
+  /** The query's embedding, not needed for keyword searches */
+  embedding?: number[]
+  embeddingModel: string
+  matchThreshold: number
+  matchCount: number
+  minContentLength: number
+  /** Weights of the keyword and vector rankings in hybrid searches */
+  fullTextWeight: number
+  semanticWeight: number
+  /** Dampens the lead of top ranks in hybrid searches, higher values flatten the fused scores */
+  rrfK: number
+  filters?: SearchFilters
+  /** Candidates kept by the HNSW index scan, trading latency for recall */
+  efSearch?: number
+}
+
+/**
+ * Limits a search to the sections of matching pages. Filters that are set must all match.
+ */
+export interface SearchFilters {
+  source?: string
+  type?: string
+  /** Only pages whose path starts with this */
+  pathPrefix?: string
+  /** Only this page and the pages nested under it, at any depth */
+  parentPageId?: number
+  /** Only pages whose `meta` contains this, e.g. `{ "tags": ["billing"] }` */
+  meta?: Record<string, any>
+}
+
+// Sections are added to the context until it reaches this many tokens
+const maxContextTokens = 5000
+
+// pgvector's `hnsw.ef_search` when a search doesn't set it
+const defaultEfSearch = 40
+
+/**
+ * Validates the query of a search request, returning it trimmed.
+ */
+export function parseSearchQuery(query: unknown, field = 'prompt') {
+  if (typeof query !== 'string' || !query.trim()) {
+    throw new UserError(`${field} must be a non-empty string`, { [field]: query })
+  }
+
+  return query.trim()
+}
+
+/**
+ * Validates the `match_threshold` of a search request: the lowest similarity a match can have.
+ */
+export function parseMatchThreshold(matchThreshold: unknown, field = 'match_threshold') {
+  if (typeof matchThreshold !== 'number' || !Number.isFinite(matchThreshold)) {
+    throw new UserError(`${field} must be a number`, { [field]: matchThreshold })
+  }
+
+  return matchThreshold
+}
+
+/**
+ * Validates the `match_count` of a search request. An index scan returns at most 1000 rows,
+ * the highest `ef_search`, so more matches can't be found.
+ */
+export function parseMatchCount(matchCount: unknown, field = 'match_count') {
+  if (
+    !Number.isInteger(matchCount) ||
+    (matchCount as number) < 1 ||
+    (matchCount as number) > 1000
+  ) {
+    throw new UserError(`${field} must be an integer from 1 to 1000`, { [field]: matchCount })
+  }
+
+  return matchCount as number
+}
+
+/**
+ * Validates the `ef_search` of a search request: the number of candidates the HNSW index scan
+ * keeps (`hnsw.ef_search`). Higher values find more of the true nearest sections, slower.
+ *
+ * An index scan returns at most `ef_search` rows, so it can't be below the match count. When
+ * not set, it is raised from pgvector's default to the match count.
+ */
+export function parseEfSearch(
+  efSearch: unknown,
+  matchCount: number,
+  field = 'ef_search',
+  matchCountField = 'match_count'
+) {
+  if (efSearch === undefined || efSearch === null) {
+    return matchCount > defaultEfSearch ? matchCount : undefined
+  }
+
+  if (!Number.isInteger(efSearch) || (efSearch as number) < 1 || (efSearch as number) > 1000) {
+    throw new UserError(`${field} must be an integer from 1 to 1000`, { [field]: efSearch })
+  }
+
+  if ((efSearch as number) < matchCount) {
+    throw new UserError(`${field} must be at least ${matchCountField}`, {
+      [field]: efSearch,
+      [matchCountField]: matchCount,
+    })
+  }
+
+  return efSearch as number
+}
+
+/**
+ * Validates the `filters` of a search request, as sent to `vector-search`.
+ */
+export function parseSearchFilters(filters: Record<string, any> = {}): SearchFilters {
+  if (typeof filters !== 'object' || filters === null || Array.isArray(filters)) {
+    throw new UserError('filters must be an object', { filters })
+  }
+
+  const { source, type, path_prefix, parent_page_id, meta } = filters
+
+  for (const [field, value] of Object.entries({ source, type, path_prefix })) {
+    if (value !== undefined && value !== null && typeof value !== 'string') {
+      throw new UserError(`filters.${field} must be a string`, { [field]: value })
+    }
+  }
+
+  if (
+    parent_page_id !== undefined &&
+    parent_page_id !== null &&
+    (!Number.isInteger(parent_page_id) || parent_page_id < 1)
+  ) {
+    throw new UserError('filters.parent_page_id must be a positive integer', { parent_page_id })
+  }
+
+  if (meta !== undefined && meta !== null && (typeof meta !== 'object' || Array.isArray(meta))) {
+    throw new UserError('filters.meta must be an object', { meta })
+  }
+
+  return {
+    source: source || undefined,
+    type: type || undefined,
+    pathPrefix: path_prefix || undefined,
+    parentPageId: parent_page_id ?? undefined,
+    meta: meta ?? undefined,
+  }
+}
+
+/**
+ * Finds the sections matching a query with the database function for the search mode.
+ */
+export async function matchPageSections(
+  supabaseClient: SupabaseClient,
+  {
+    mode,
+    query,
+    embedding,
+    embeddingModel,
+    matchThreshold,
+    matchCount,
+    minContentLength,
+    fullTextWeight,
+    semanticWeight,
+    rrfK,
+    filters = {},
+    efSearch,
+  }: MatchPageSectionsOptions
+): Promise<PageSectionMatch[]> {
+  // Unset filters are left to their SQL default of null, which matches every page
+  const filterParams = {
+    filter_source: filters.source,
+    filter_type: filters.type,
+    filter_path_prefix: filters.pathPrefix,
+    filter_parent_page_id: filters.parentPageId,
+    filter_meta: filters.meta,
+  }
+
+  const { error, data } =
+    mode === 'keyword'
+      ? await supabaseClient.rpc('keyword_match_page_sections', {
+          query_text: query,
+          embedding_model: embeddingModel,
+          match_count: matchCount,
+          min_content_length: minContentLength,
+          ...filterParams,
+        })
+      : mode === 'hybrid'
+      ? await supabaseClient.rpc('hybrid_match_page_sections', {
+          query_text: query,
+          embedding,
+          embedding_model: embeddingModel,
+          match_threshold: matchThreshold,
+          match_count: matchCount,
+          min_content_length: minContentLength,
+          full_text_weight: fullTextWeight,
+          semantic_weight: semanticWeight,
+          rrf_k: rrfK,
+          ...filterParams,
+          ef_search: efSearch,
+        })
+      : await supabaseClient.rpc('match_page_sections', {
+          embedding,
+          embedding_model: embeddingModel,
+          match_threshold: matchThreshold,
+          match_count: matchCount,
+          min_content_length: minContentLength,
+          ...filterParams,
+          ef_search: efSearch,
+        })
+
+  if (error) {
+    throw new ApplicationError('Failed to match page sections', error)
+  }
+
+  return data
+}
+
+export function toSearchResult(match: PageSectionMatch): SearchResult {
+  return {
+    id: match.id,
+    pageId: match.page_id,
+    path: match.path,
+    heading: match.heading,
+    headingPath: match.heading_path ?? [],
+    slug: match.slug,
+    url: match.slug ? `${match.path}#${match.slug}` : match.path,
+    similarity: match.similarity,
+    keywordRank: match.keyword_rank ?? null,
+    score: match.score ?? match.similarity ?? 0,
+    tokenCount: match.token_count,
+    content: match.content,
+  }
+}
+
+export function toAnswerSource(match: PageSectionMatch, index: number): AnswerSource {
+  const { content, tokenCount, ...result } = toSearchResult(match)
+  return { number: index + 1, ...result }
+}
+
+// Building a tokenizer takes a while, so `countTokens` calls share one
+let sharedTokenizer: GPT3Tokenizer | undefined
+
+/**
+ * Counts tokens the way the context budget does, e.g. to meter prompts and completions.
+ */
+export function countTokens(text: string) {
+  sharedTokenizer ??= new GPT3Tokenizer({ type: 'gpt3' })
+  return sharedTokenizer.encode(text).text.length
+}
+
+/**
+ * Picks the best matching sections that fit in a prompt, each led by its heading breadcrumb,
+ * up to about 5000 tokens.
+ */
+export function selectContextSections(matches: PageSectionMatch[]) {
+  const tokenizer = new GPT3Tokenizer({ type: 'gpt3' })
+  let tokenCount = 0
+  const sections: { match: PageSectionMatch; content: string }[] = []
+
+  for (const match of matches) {
+    // Lead with the breadcrumb so the context shows where in the document it came from
+    const content = match.heading_path?.length
+      ? `${match.heading_path.join(breadcrumbSeparator)}\n\n${match.content}`
+      : match.content
+    const encoded = tokenizer.encode(content)
+    tokenCount += encoded.text.length
+
+    if (tokenCount >= maxContextTokens) {
+      break
+    }
+
+    sections.push({ match, content: content.trim() })
+  }
+
+  return sections
+}
+
+/**
+ * Joins the best matching sections into a single context for a prompt, separated by `---`.
+ */
+export function buildContextText(matches: PageSectionMatch[]) {
+  return selectContextSections(matches)
+    .map(({ content }) => `${content}\n---\n`)
+    .join('')
+}
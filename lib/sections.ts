@@ -0,0 +1,100 @@
+import { createHeadingPathTracker } from '@/lib/headings'
+import { processHtml } from '@/lib/html'
+import { processMarkdown } from '@/lib/markdown'
+
+export interface Section {
+  heading: string | null
+  /** Headings enclosing the section, from the top-level heading down to its own */
+  headingPath: string[]
+  slug: string | null
+  content: string
+}
+
+export const contentTypes = ['markdown', 'html', 'text'] as const
+
+export type ContentType = (typeof contentTypes)[number]
+
+/**
+ * Splits a document into sections, using the parser that matches its content type.
+ */
+export function processContent(content: string, type: ContentType = 'markdown'): Section[] {
+  switch (type) {
+    case 'markdown':
+      return processMarkdown(content)
+    case 'html':
+      return processHtml(content)
+    default:
+      return processText(content)
+  }
+}
+
+/**
+ * Splits plain text on lines that look like `#` headings.
+ */
+export function processText(content: string): Section[] {
+  const sections: Section[] = []
+  const lines = content.split('\n')
+
+  const trackHeadingPath = createHeadingPathTracker()
+
+  let currentHeading: string | null = null
+  let currentHeadingPath: string[] = []
+  let currentSlug: string | null = null
+  let currentContent = ''
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i]
+
+    // Check if line is a heading (# or ## or ### etc.)
+    if (line.startsWith('#')) {
+      // If we already have content, save it as a section
+      if (currentContent.trim()) {
+        sections.push({
+          heading: currentHeading,
+          headingPath: currentHeadingPath,
+          slug: currentSlug,
+          content: currentContent.trim(),
+        })
+      }
+
+      // Extract heading without the # symbols
+      currentHeading = line.replace(/^#+\s+/, '')
+      currentHeadingPath = trackHeadingPath(line.match(/^#+/)![0].length, currentHeading)
+      currentSlug = slugify(currentHeading)
+      currentContent = line + '\n' // Include the heading in the content
+    } else {
+      currentContent += line + '\n'
+    }
+  }
+
+  // Add the last section
+  if (currentContent.trim()) {
+    sections.push({
+      heading: currentHeading,
+      headingPath: currentHeadingPath,
+      slug: currentSlug,
+      content: currentContent.trim(),
+    })
+  }
+
+  // If no sections were created (no headings), create one with the entire content
+  if (sections.length === 0) {
+    sections.push({
+      heading: null,
+      headingPath: [],
+      slug: null,
+      content: content.trim(),
+    })
+  }
+
+  return sections
+}
+
+// Helper function to create a slug from a heading
+function slugify(text: string) {
+  return text
+    .toLowerCase()
+    .replace(/[^\w\s-]/g, '') // Remove non-word chars
+    .replace(/[\s_-]+/g, '-') // Replace spaces and underscores with hyphens
+    .replace(/^-+|-+$/g, '') // Remove leading/trailing hyphens
+}
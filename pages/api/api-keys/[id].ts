@@ -0,0 +1,58 @@
+import { revokeApiKey } from '@/lib/api-keys'
+import { authorizeRequest } from '@/lib/auth'
+import { ApplicationError, errorResponse } from '@/lib/errors'
+import { parseId } from '@/lib/history'
+import { createClient } from '@supabase/supabase-js'
+import type { NextRequest } from 'next/server'
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY
+
+export const runtime = 'edge'
+
+/**
+ * `DELETE` revokes an API key. Requests made with it are rejected from then on.
+ */
+export default async function handler(req: NextRequest) {
+  try {
+    if (req.method !== 'DELETE') {
+      return new Response(
+        JSON.stringify({
+          error: 'Method not allowed',
+        }),
+        {
+          status: 405,
+          headers: { 'Content-Type': 'application/json' },
+        }
+      )
+    }
+
+    if (!supabaseUrl) {
+      throw new ApplicationError('Missing environment variable SUPABASE_URL')
+    }
+
+    if (!supabaseServiceKey) {
+      throw new ApplicationError('Missing environment variable SUPABASE_SERVICE_ROLE_KEY')
+    }
+
+    const supabaseClient = createClient(supabaseUrl, supabaseServiceKey, {
+      auth: {
+        persistSession: false,
+        autoRefreshToken: false,
+      },
+    })
+
+    await authorizeRequest(req, supabaseClient, 'admin')
+
+    const apiKeyId = parseId(req.nextUrl.searchParams.get('id'), 'API key')
+
+    const result = await revokeApiKey(supabaseClient, apiKeyId)
+
+    return new Response(JSON.stringify(result), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    })
+  } catch (err: unknown) {
+    return errorResponse(err)
+  }
+}
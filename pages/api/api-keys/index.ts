@@ -0,0 +1,70 @@
+import { createApiKey, listApiKeys, parseCreateApiKeyOptions } from '@/lib/api-keys'
+import { authorizeRequest } from '@/lib/auth'
+import { ApplicationError, errorResponse, UserError } from '@/lib/errors'
+import { createClient } from '@supabase/supabase-js'
+import type { NextRequest } from 'next/server'
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY
+
+export const runtime = 'edge'
+
+/**
+ * - `GET` lists the API keys, including revoked ones
+ * - `POST` creates an API key from `name`, `scopes` and an optional `expiresAt`. The key
+ *   is only included in this response, store it right away.
+ */
+export default async function handler(req: NextRequest) {
+  try {
+    if (!['GET', 'POST'].includes(req.method)) {
+      return new Response(
+        JSON.stringify({
+          error: 'Method not allowed',
+        }),
+        {
+          status: 405,
+          headers: { 'Content-Type': 'application/json' },
+        }
+      )
+    }
+
+    if (!supabaseUrl) {
+      throw new ApplicationError('Missing environment variable SUPABASE_URL')
+    }
+
+    if (!supabaseServiceKey) {
+      throw new ApplicationError('Missing environment variable SUPABASE_SERVICE_ROLE_KEY')
+    }
+
+    const supabaseClient = createClient(supabaseUrl, supabaseServiceKey, {
+      auth: {
+        persistSession: false,
+        autoRefreshToken: false,
+      },
+    })
+
+    await authorizeRequest(req, supabaseClient, 'admin')
+
+    if (req.method === 'GET') {
+      return new Response(JSON.stringify({ apiKeys: await listApiKeys(supabaseClient) }), {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' },
+      })
+    }
+
+    const requestData = await req.json()
+
+    if (!requestData) {
+      throw new UserError('Missing request data')
+    }
+
+    const result = await createApiKey(supabaseClient, parseCreateApiKeyOptions(requestData))
+
+    return new Response(JSON.stringify(result), {
+      status: 201,
+      headers: { 'Content-Type': 'application/json' },
+    })
+  } catch (err: unknown) {
+    return errorResponse(err)
+  }
+}
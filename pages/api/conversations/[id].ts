@@ -0,0 +1,68 @@
+import { authorizeRequest } from '@/lib/auth'
+import { ApplicationError, errorResponse } from '@/lib/errors'
+import { deleteConversation, getConversation, parseId } from '@/lib/history'
+import { createClient } from '@supabase/supabase-js'
+import type { NextRequest } from 'next/server'
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY
+
+export const runtime = 'edge'
+
+/**
+ * - `GET` returns a conversation with its messages
+ * - `DELETE` removes a conversation and its messages
+ */
+export default async function handler(req: NextRequest) {
+  try {
+    if (!['GET', 'DELETE'].includes(req.method)) {
+      return new Response(
+        JSON.stringify({
+          error: 'Method not allowed',
+        }),
+        {
+          status: 405,
+          headers: { 'Content-Type': 'application/json' },
+        }
+      )
+    }
+
+    if (!supabaseUrl) {
+      throw new ApplicationError('Missing environment variable SUPABASE_URL')
+    }
+
+    if (!supabaseServiceKey) {
+      throw new ApplicationError('Missing environment variable SUPABASE_SERVICE_ROLE_KEY')
+    }
+
+    const supabaseClient = createClient(supabaseUrl, supabaseServiceKey, {
+      auth: {
+        persistSession: false,
+        autoRefreshToken: false,
+      },
+    })
+
+    await authorizeRequest(
+      req,
+      supabaseClient,
+      req.method === 'GET' ? 'conversations:read' : 'conversations:write'
+    )
+
+    const conversationId = parseId(req.nextUrl.searchParams.get('id'), 'conversation')
+
+    let result
+    if (req.method === 'GET') {
+      result = await getConversation(supabaseClient, conversationId)
+    } else {
+      await deleteConversation(supabaseClient, conversationId)
+      result = { id: conversationId }
+    }
+
+    return new Response(JSON.stringify(result), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    })
+  } catch (err: unknown) {
+    return errorResponse(err)
+  }
+}
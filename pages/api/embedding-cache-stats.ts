@@ -0,0 +1,67 @@
+import { authorizeRequest } from '@/lib/auth'
+import { getEmbeddingCacheStats } from '@/lib/embedding-cache'
+import { ApplicationError, errorResponse } from '@/lib/errors'
+import { createClient } from '@supabase/supabase-js'
+import type { NextRequest } from 'next/server'
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY
+
+export const runtime = 'edge'
+
+/**
+ * Reports embedding cache hits, misses and the tokens saved by hits, per model.
+ */
+export default async function handler(req: NextRequest) {
+  try {
+    if (req.method !== 'GET') {
+      return new Response(
+        JSON.stringify({
+          error: 'Method not allowed',
+        }),
+        {
+          status: 405,
+          headers: { 'Content-Type': 'application/json' },
+        }
+      )
+    }
+
+    if (!supabaseUrl) {
+      throw new ApplicationError('Missing environment variable SUPABASE_URL')
+    }
+
+    if (!supabaseServiceKey) {
+      throw new ApplicationError('Missing environment variable SUPABASE_SERVICE_ROLE_KEY')
+    }
+
+    const supabaseClient = createClient(supabaseUrl, supabaseServiceKey, {
+      auth: {
+        persistSession: false,
+        autoRefreshToken: false,
+      },
+    })
+
+    await authorizeRequest(req, supabaseClient, 'admin')
+
+    const stats = await getEmbeddingCacheStats(supabaseClient)
+
+    return new Response(
+      JSON.stringify({
+        models: stats.map(({ embedding_model, hits, misses, saved_tokens, updated_at }) => ({
+          model: embedding_model,
+          hits,
+          misses,
+          hitRate: hits + misses > 0 ? hits / (hits + misses) : 0,
+          savedTokens: saved_tokens,
+          updatedAt: updated_at,
+        })),
+      }),
+      {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' },
+      }
+    )
+  } catch (err: unknown) {
+    return errorResponse(err)
+  }
+}
@@ -0,0 +1,61 @@
+import { authorizeRequest } from '@/lib/auth'
+import { ApplicationError, errorResponse } from '@/lib/errors'
+import { deletePage, getPage, parseId } from '@/lib/history'
+import { createClient } from '@supabase/supabase-js'
+import type { NextRequest } from 'next/server'
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY
+
+export const runtime = 'edge'
+
+/**
+ * - `GET` returns a page with its sections, meta, checksum and parent page
+ * - `DELETE` removes a page and its sections. Child pages are detached, not removed.
+ */
+export default async function handler(req: NextRequest) {
+  try {
+    if (!['GET', 'DELETE'].includes(req.method)) {
+      return new Response(
+        JSON.stringify({
+          error: 'Method not allowed',
+        }),
+        {
+          status: 405,
+          headers: { 'Content-Type': 'application/json' },
+        }
+      )
+    }
+
+    if (!supabaseUrl) {
+      throw new ApplicationError('Missing environment variable SUPABASE_URL')
+    }
+
+    if (!supabaseServiceKey) {
+      throw new ApplicationError('Missing environment variable SUPABASE_SERVICE_ROLE_KEY')
+    }
+
+    const supabaseClient = createClient(supabaseUrl, supabaseServiceKey, {
+      auth: {
+        persistSession: false,
+        autoRefreshToken: false,
+      },
+    })
+
+    await authorizeRequest(req, supabaseClient, req.method === 'GET' ? 'search' : 'ingest')
+
+    const pageId = parseId(req.nextUrl.searchParams.get('id'), 'page')
+
+    const result =
+      req.method === 'GET'
+        ? await getPage(supabaseClient, pageId)
+        : { id: pageId, sections: await deletePage(supabaseClient, pageId) }
+
+    return new Response(JSON.stringify(result), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    })
+  } catch (err: unknown) {
+    return errorResponse(err)
+  }
+}
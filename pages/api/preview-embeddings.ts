@@ -0,0 +1,89 @@
+import { authorizeRequest } from '@/lib/auth'
+import { parseChunkOptions } from '@/lib/chunks'
+import { getEmbeddingModelConfig } from '@/lib/embedding-providers'
+import { ApplicationError, errorResponse, UserError } from '@/lib/errors'
+import { previewIngestion } from '@/lib/preview'
+import { contentTypes } from '@/lib/sections'
+import { createClient } from '@supabase/supabase-js'
+import type { NextRequest } from 'next/server'
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY
+
+export const runtime = 'edge'
+
+/**
+ * Shows how `generate-embeddings` would split a document, with token counts and an
+ * estimated embedding cost. Nothing is stored and no embeddings are created.
+ */
+export default async function handler(req: NextRequest) {
+  try {
+    if (req.method !== 'POST') {
+      return new Response(
+        JSON.stringify({
+          error: 'Method not allowed',
+        }),
+        {
+          status: 405,
+          headers: { 'Content-Type': 'application/json' },
+        }
+      )
+    }
+
+    if (!supabaseUrl) {
+      throw new ApplicationError('Missing environment variable SUPABASE_URL')
+    }
+
+    if (!supabaseServiceKey) {
+      throw new ApplicationError('Missing environment variable SUPABASE_SERVICE_ROLE_KEY')
+    }
+
+    // Only used to verify the API key, the preview itself doesn't touch the database
+    const supabaseClient = createClient(supabaseUrl, supabaseServiceKey, {
+      auth: {
+        persistSession: false,
+        autoRefreshToken: false,
+      },
+    })
+
+    await authorizeRequest(req, supabaseClient, 'ingest')
+
+    // Only the model is needed to price the preview, so no provider credentials are required
+    const { model } = getEmbeddingModelConfig()
+
+    const requestData = await req.json()
+
+    if (!requestData) {
+      throw new UserError('Missing request data')
+    }
+
+    const { content, type = 'markdown', meta, maxTokens, overlapTokens, prependTitle } = requestData
+
+    if (!content) {
+      throw new UserError('Missing content in request data')
+    }
+
+    if (!contentTypes.includes(type)) {
+      throw new UserError(`Unsupported content type '${type}'`, { contentTypes })
+    }
+
+    if (prependTitle !== undefined && typeof prependTitle !== 'boolean') {
+      throw new UserError('prependTitle must be a boolean', { prependTitle })
+    }
+
+    const preview = previewIngestion(
+      content,
+      type,
+      parseChunkOptions({ maxTokens, overlapTokens }),
+      model,
+      { meta, prependTitle }
+    )
+
+    return new Response(JSON.stringify(preview), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    })
+  } catch (err: unknown) {
+    return errorResponse(err)
+  }
+}
@@ -0,0 +1,82 @@
+import { authorizeRequest } from '@/lib/auth'
+import { defaultChunkOptions } from '@/lib/chunks'
+import { createCachedEmbeddingProvider } from '@/lib/embedding-cache'
+import { getEmbeddingProvider } from '@/lib/embedding-providers'
+import { ApplicationError, errorResponse } from '@/lib/errors'
+import { parseId } from '@/lib/history'
+import { enforceRateLimit } from '@/lib/rate-limit'
+import { cancelReindexJob, getReindexStatus, runReindexJob } from '@/lib/reindex'
+import { createClient } from '@supabase/supabase-js'
+import type { NextRequest } from 'next/server'
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY
+
+export const runtime = 'edge'
+
+/**
+ * - `GET` reports the processed, failed and remaining page counts of a job
+ * - `POST` processes the job for up to `REINDEX_TIME_BUDGET_MS`, call it again until `done`
+ * - `DELETE` cancels the job
+ */
+export default async function handler(req: NextRequest) {
+  try {
+    if (!['GET', 'POST', 'DELETE'].includes(req.method)) {
+      return new Response(
+        JSON.stringify({
+          error: 'Method not allowed',
+        }),
+        {
+          status: 405,
+          headers: { 'Content-Type': 'application/json' },
+        }
+      )
+    }
+
+    if (!supabaseUrl) {
+      throw new ApplicationError('Missing environment variable SUPABASE_URL')
+    }
+
+    if (!supabaseServiceKey) {
+      throw new ApplicationError('Missing environment variable SUPABASE_SERVICE_ROLE_KEY')
+    }
+
+    const supabaseClient = createClient(supabaseUrl, supabaseServiceKey, {
+      auth: {
+        persistSession: false,
+        autoRefreshToken: false,
+      },
+    })
+
+    const apiKey = await authorizeRequest(req, supabaseClient, 'ingest')
+    const rateLimit = await enforceRateLimit(req, supabaseClient, apiKey)
+
+    const jobId = parseId(req.nextUrl.searchParams.get('id'), 're-index job')
+
+    let status
+    switch (req.method) {
+      case 'GET':
+        status = await getReindexStatus(supabaseClient, jobId)
+        break
+      case 'POST':
+        status = await runReindexJob(
+          supabaseClient,
+          createCachedEmbeddingProvider(supabaseClient, rateLimit.meter(getEmbeddingProvider())),
+          jobId,
+          {
+            chunkOptions: defaultChunkOptions,
+          }
+        )
+        break
+      default:
+        status = await cancelReindexJob(supabaseClient, jobId)
+    }
+
+    return new Response(JSON.stringify(status), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json', ...rateLimit.headers },
+    })
+  } catch (err: unknown) {
+    return errorResponse(err)
+  }
+}
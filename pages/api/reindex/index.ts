@@ -0,0 +1,63 @@
+import { authorizeRequest } from '@/lib/auth'
+import { getEmbeddingProvider } from '@/lib/embedding-providers'
+import { ApplicationError, errorResponse } from '@/lib/errors'
+import { createReindexJob, parseReindexFilters } from '@/lib/reindex'
+import { createClient } from '@supabase/supabase-js'
+import type { NextRequest } from 'next/server'
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY
+
+export const runtime = 'edge'
+
+/**
+ * Creates a job that re-chunks and re-embeds the stored content of every matching page.
+ * The job is processed by POSTing to `/api/reindex/[id]`.
+ */
+export default async function handler(req: NextRequest) {
+  try {
+    if (req.method !== 'POST') {
+      return new Response(
+        JSON.stringify({
+          error: 'Method not allowed',
+        }),
+        {
+          status: 405,
+          headers: { 'Content-Type': 'application/json' },
+        }
+      )
+    }
+
+    if (!supabaseUrl) {
+      throw new ApplicationError('Missing environment variable SUPABASE_URL')
+    }
+
+    if (!supabaseServiceKey) {
+      throw new ApplicationError('Missing environment variable SUPABASE_SERVICE_ROLE_KEY')
+    }
+
+    const supabaseClient = createClient(supabaseUrl, supabaseServiceKey, {
+      auth: {
+        persistSession: false,
+        autoRefreshToken: false,
+      },
+    })
+
+    await authorizeRequest(req, supabaseClient, 'ingest')
+
+    const embeddingProvider = getEmbeddingProvider()
+
+    // All filters are optional, so an empty body re-indexes the whole corpus
+    const requestData = await req.json().catch(() => ({}))
+    const filters = parseReindexFilters(requestData ?? {})
+
+    const status = await createReindexJob(supabaseClient, embeddingProvider, filters)
+
+    return new Response(JSON.stringify(status), {
+      status: 201,
+      headers: { 'Content-Type': 'application/json' },
+    })
+  } catch (err: unknown) {
+    return errorResponse(err)
+  }
+}
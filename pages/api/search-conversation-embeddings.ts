@@ -1,17 +1,16 @@
-import { ApplicationError, UserError } from '@/lib/errors'
+import { authorizeRequest } from '@/lib/auth'
+import { createCachedEmbeddingProvider } from '@/lib/embedding-cache'
+import { getEmbeddingProvider } from '@/lib/embedding-providers'
+import { createEmbeddings } from '@/lib/embeddings'
+import { ApplicationError, errorResponse, UserError } from '@/lib/errors'
+import { enforceRateLimit } from '@/lib/rate-limit'
+import { parseEfSearch, parseMatchCount, parseMatchThreshold, parseSearchQuery } from '@/lib/search'
 import { createClient } from '@supabase/supabase-js'
 import type { NextRequest } from 'next/server'
-import { Configuration, OpenAIApi } from 'openai-edge'
 
-const openAiKey = process.env.OPENAI_KEY
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
 const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY
 
-const config = new Configuration({
-  apiKey: openAiKey,
-})
-const openai = new OpenAIApi(config)
-
 export const runtime = 'edge'
 
 interface SearchParams {
@@ -20,6 +19,8 @@ interface SearchParams {
   matchCount?: number
   matchThreshold?: number
   includeContext?: boolean
+  /** Candidates kept by the HNSW index scan, see `parseEfSearch` */
+  efSearch?: number
 }
 
 interface MessageMatch {
@@ -63,10 +64,6 @@ export default async function handler(req: NextRequest) {
       )
     }
 
-    if (!openAiKey) {
-      throw new ApplicationError('Missing environment variable OPENAI_KEY')
-    }
-
     if (!supabaseUrl) {
       throw new ApplicationError('Missing environment variable SUPABASE_URL')
     }
@@ -75,6 +72,13 @@ export default async function handler(req: NextRequest) {
       throw new ApplicationError('Missing environment variable SUPABASE_SERVICE_ROLE_KEY')
     }
 
+    const supabaseClient = createClient(supabaseUrl, supabaseServiceKey)
+
+    const apiKey = await authorizeRequest(req, supabaseClient, 'conversations:read')
+    const rateLimit = await enforceRateLimit(req, supabaseClient, apiKey)
+
+    const embeddingProvider = getEmbeddingProvider()
+
     const requestData = await req.json()
 
     if (!requestData) {
@@ -84,8 +88,8 @@ export default async function handler(req: NextRequest) {
     const {
       query,
       conversationId,
-      matchCount = 5,
-      matchThreshold = 0.7,
+      matchCount: requestedMatchCount = 5,
+      matchThreshold: requestedMatchThreshold = 0.7,
       includeContext = false,
     } = requestData as SearchParams
 
@@ -93,32 +97,16 @@ export default async function handler(req: NextRequest) {
       throw new UserError('Missing query in request data')
     }
 
-    const supabaseClient = createClient(supabaseUrl, supabaseServiceKey)
+    const sanitizedQuery = parseSearchQuery(query, 'query')
+    const matchThreshold = parseMatchThreshold(requestedMatchThreshold, 'matchThreshold')
+    const matchCount = parseMatchCount(requestedMatchCount, 'matchCount')
+    const efSearch = parseEfSearch(requestData.efSearch, matchCount, 'efSearch', 'matchCount')
 
     // Create embedding from query
-    const sanitizedQuery = query.trim().replace(/\n/g, ' ')
-    const embeddingResponse = await openai.createEmbedding({
-      model: 'text-embedding-ada-002',
-      input: sanitizedQuery,
-    })
-
-    if (!embeddingResponse.ok) {
-      const error = await embeddingResponse.json()
-      throw new ApplicationError('Failed to create embedding for query', error)
-    }
-
-    const embeddingData = await embeddingResponse.json()
-
-    if (
-      !embeddingData ||
-      !embeddingData.data ||
-      !Array.isArray(embeddingData.data) ||
-      embeddingData.data.length === 0
-    ) {
-      throw new ApplicationError('Invalid embedding response format', embeddingData)
-    }
-
-    const { embedding } = embeddingData.data[0]
+    const [{ embedding }] = await createEmbeddings(
+      createCachedEmbeddingProvider(supabaseClient, rateLimit.meter(embeddingProvider)),
+      [sanitizedQuery]
+    )
 
     // Find specific conversation if conversationId is provided
     let filterConversationId: number | null = null
@@ -145,9 +133,11 @@ export default async function handler(req: NextRequest) {
       'match_conversation_messages',
       {
         query_embedding: embedding,
+        embedding_model: embeddingProvider.model,
         match_threshold: matchThreshold,
         match_count: matchCount,
         filter_conversation_id: filterConversationId,
+        ef_search: efSearch,
       }
     )
 
@@ -223,35 +213,10 @@ export default async function handler(req: NextRequest) {
       }),
       {
         status: 200,
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', ...rateLimit.headers },
       }
     )
   } catch (err: unknown) {
-    if (err instanceof UserError) {
-      return new Response(
-        JSON.stringify({
-          error: err.message,
-          data: err.data,
-        }),
-        {
-          status: 400,
-          headers: { 'Content-Type': 'application/json' },
-        }
-      )
-    } else if (err instanceof ApplicationError) {
-      console.error(`${err.message}: ${JSON.stringify(err.data)}`)
-    } else {
-      console.error(err)
-    }
-
-    return new Response(
-      JSON.stringify({
-        error: 'There was an error processing your request',
-      }),
-      {
-        status: 500,
-        headers: { 'Content-Type': 'application/json' },
-      }
-    )
+    return errorResponse(err)
   }
 }
@@ -1,17 +1,15 @@
-import { ApplicationError, UserError } from '@/lib/errors'
+import { authorizeRequest } from '@/lib/auth'
+import { createCachedEmbeddingProvider } from '@/lib/embedding-cache'
+import { getEmbeddingProvider } from '@/lib/embedding-providers'
+import { batchEmbeddingInputs, createEmbeddings } from '@/lib/embeddings'
+import { ApplicationError, errorResponse, UserError } from '@/lib/errors'
+import { enforceRateLimit } from '@/lib/rate-limit'
 import { createClient } from '@supabase/supabase-js'
 import type { NextRequest } from 'next/server'
-import { Configuration, OpenAIApi } from 'openai-edge'
 
-const openAiKey = process.env.OPENAI_KEY
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
 const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY
 
-const config = new Configuration({
-  apiKey: openAiKey,
-})
-const openai = new OpenAIApi(config)
-
 // Define interfaces for our data structures
 interface ConversationMessage {
   role: 'user' | 'assistant' | 'system'
@@ -43,10 +41,6 @@ export default async function handler(req: NextRequest) {
       )
     }
 
-    if (!openAiKey) {
-      throw new ApplicationError('Missing environment variable OPENAI_KEY')
-    }
-
     if (!supabaseUrl) {
       throw new ApplicationError('Missing environment variable SUPABASE_URL')
     }
@@ -55,6 +49,18 @@ export default async function handler(req: NextRequest) {
       throw new ApplicationError('Missing environment variable SUPABASE_SERVICE_ROLE_KEY')
     }
 
+    const supabaseClient = createClient(supabaseUrl, supabaseServiceKey, {
+      auth: {
+        persistSession: false,
+        autoRefreshToken: false,
+      },
+    })
+
+    const apiKey = await authorizeRequest(req, supabaseClient, 'conversations:write')
+    const rateLimit = await enforceRateLimit(req, supabaseClient, apiKey)
+
+    const embeddingProvider = getEmbeddingProvider()
+
     const requestData = await req.json()
 
     if (!requestData) {
@@ -71,13 +77,6 @@ export default async function handler(req: NextRequest) {
       throw new UserError('Missing or invalid messages in request data')
     }
 
-    const supabaseClient = createClient(supabaseUrl, supabaseServiceKey, {
-      auth: {
-        persistSession: false,
-        autoRefreshToken: false,
-      },
-    })
-
     // Create or update conversation record
     const { error: upsertConversationError, data: conversation } = await supabaseClient
       .from('conversation_history')
@@ -98,68 +97,49 @@ export default async function handler(req: NextRequest) {
       throw upsertConversationError
     }
 
-    // Process each message and generate embeddings
+    // Skip messages that have no content
+    const validMessages = messages.filter((message) => message.content && message.role)
+
+    // Generate embeddings for the messages in batches
     const results = []
-    for (const message of messages) {
-      // Skip if message has no content
-      if (!message.content || !message.role) {
-        continue
-      }
+    const batches = batchEmbeddingInputs(validMessages.map(({ content }) => content))
 
-      // OpenAI recommends replacing newlines with spaces for best results
-      const input = message.content.replace(/\n/g, ' ')
+    for (const batch of batches) {
+      const batchMessages = batch.map((i) => validMessages[i])
 
       try {
-        const embeddingResponse = await openai.createEmbedding({
-          model: 'text-embedding-ada-002',
-          input,
-        })
-
-        if (!embeddingResponse.ok) {
-          const error = await embeddingResponse.json()
-          throw new ApplicationError('Failed to generate embedding', error)
-        }
-
-        const embeddingData = await embeddingResponse.json()
-
-        if (
-          !embeddingData ||
-          !embeddingData.data ||
-          !Array.isArray(embeddingData.data) ||
-          embeddingData.data.length === 0
-        ) {
-          throw new ApplicationError('Invalid embedding response format', embeddingData)
-        }
-
-        const { embedding } = embeddingData.data[0]
-        const tokenCount = embeddingData.usage.total_tokens
-
-        if (!embedding) {
-          throw new ApplicationError('Missing embedding in response data', embeddingData.data[0])
-        }
+        const embeddings = await createEmbeddings(
+          createCachedEmbeddingProvider(supabaseClient, rateLimit.meter(embeddingProvider)),
+          batchMessages.map(({ content }) => content)
+        )
 
-        const { error: insertMessageError, data: messageData } = await supabaseClient
+        const { error: insertMessagesError, data: messagesData } = await supabaseClient
           .from('conversation_message')
-          .insert({
-            conversation_id: conversation.id,
-            role: message.role,
-            content: message.content,
-            token_count: tokenCount,
-            embedding,
-            metadata: message.metadata || null,
-          })
+          .insert(
+            batchMessages.map((message, i) => ({
+              conversation_id: conversation.id,
+              role: message.role,
+              content: message.content,
+              token_count: embeddings[i].tokenCount,
+              embedding: embeddings[i].embedding,
+              embedding_model: embeddingProvider.model,
+              embedding_dimensions: embeddings[i].embedding.length,
+              metadata: message.metadata || null,
+            }))
+          )
           .select()
-          .limit(1)
-          .single()
 
-        if (insertMessageError) {
-          throw insertMessageError
+        if (insertMessagesError) {
+          throw insertMessagesError
         }
 
-        results.push(messageData)
+        results.push(...messagesData)
       } catch (err) {
         console.error(
-          `Failed to generate embeddings for message: ${message.content.substring(0, 50)}...`
+          `Failed to generate embeddings for message: ${batchMessages[0].content.substring(
+            0,
+            50
+          )}...`
         )
         throw err
       }
@@ -173,35 +153,10 @@ export default async function handler(req: NextRequest) {
       }),
       {
         status: 200,
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', ...rateLimit.headers },
       }
     )
   } catch (err: unknown) {
-    if (err instanceof UserError) {
-      return new Response(
-        JSON.stringify({
-          error: err.message,
-          data: err.data,
-        }),
-        {
-          status: 400,
-          headers: { 'Content-Type': 'application/json' },
-        }
-      )
-    } else if (err instanceof ApplicationError) {
-      console.error(`${err.message}: ${JSON.stringify(err.data)}`)
-    } else {
-      console.error(err)
-    }
-
-    return new Response(
-      JSON.stringify({
-        error: 'There was an error processing your request',
-      }),
-      {
-        status: 500,
-        headers: { 'Content-Type': 'application/json' },
-      }
-    )
+    return errorResponse(err)
   }
 }
@@ -1,13 +1,36 @@
-import { ApplicationError, UserError } from '@/lib/errors'
+import {
+  answerModel,
+  answerSourcesHeader,
+  buildAnswerMessages,
+  encodeAnswerSources,
+} from '@/lib/answer'
+import { authorizeRequest } from '@/lib/auth'
+import { createCachedEmbeddingProvider } from '@/lib/embedding-cache'
+import { getEmbeddingModelConfig, getEmbeddingProvider } from '@/lib/embedding-providers'
+import { createEmbeddings } from '@/lib/embeddings'
+import { ApplicationError, errorResponse, UpstreamError, UserError } from '@/lib/errors'
+import { minSearchableContentLength } from '@/lib/preview'
+import { enforceRateLimit } from '@/lib/rate-limit'
+import { responseError, withRetry } from '@/lib/retry'
+import {
+  buildContextText,
+  countTokens,
+  matchPageSections,
+  parseEfSearch,
+  parseMatchCount,
+  parseMatchThreshold,
+  parseSearchFilters,
+  parseSearchQuery,
+  searchFormats,
+  searchModes,
+  selectContextSections,
+  toAnswerSource,
+  toSearchResult,
+} from '@/lib/search'
 import { createClient } from '@supabase/supabase-js'
-import GPT3Tokenizer from 'gpt3-tokenizer'
+import { OpenAIStream, StreamingTextResponse } from 'ai'
 import type { NextRequest } from 'next/server'
-import {
-  Configuration,
-  CreateEmbeddingResponse,
-  CreateModerationResponse,
-  OpenAIApi,
-} from 'openai-edge'
+import { Configuration, CreateModerationResponse, OpenAIApi } from 'openai-edge'
 
 const openAiKey = process.env.OPENAI_KEY
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
@@ -22,10 +45,6 @@ export const runtime = 'edge'
 
 export default async function handler(req: NextRequest) {
   try {
-    if (!openAiKey) {
-      throw new ApplicationError('Missing environment variable OPENAI_KEY')
-    }
-
     if (!supabaseUrl) {
       throw new ApplicationError('Missing environment variable SUPABASE_URL')
     }
@@ -34,154 +53,169 @@ export default async function handler(req: NextRequest) {
       throw new ApplicationError('Missing environment variable SUPABASE_SERVICE_ROLE_KEY')
     }
 
+    const supabaseClient = createClient(supabaseUrl, supabaseServiceKey)
+
+    const apiKey = await authorizeRequest(req, supabaseClient, 'search')
+    const rateLimit = await enforceRateLimit(req, supabaseClient, apiKey)
+
     const requestData = await req.json()
 
     if (!requestData) {
       throw new UserError('Missing request data')
     }
 
-    const { prompt: query, match_count = 10 } = requestData
+    // Newer embedding models produce lower similarity scores, so the threshold can be tuned
+    const {
+      prompt: query,
+      match_count = 10,
+      match_threshold = 0.78,
+      format = 'context',
+      includeContext = false,
+      mode = 'vector',
+      full_text_weight = 1,
+      semantic_weight = 1,
+      rrf_k = 50,
+      filters,
+      ef_search,
+    } = requestData
 
     if (!query) {
       throw new UserError('Missing query in request data')
     }
 
-    const supabaseClient = createClient(supabaseUrl, supabaseServiceKey)
+    if (!searchFormats.includes(format)) {
+      throw new UserError(`Unsupported format '${format}'`, { searchFormats })
+    }
 
-    // Moderate the content to comply with OpenAI T&C
-    const sanitizedQuery = query.trim()
-    const moderationResponse: CreateModerationResponse = await openai
-      .createModeration({ input: sanitizedQuery })
-      .then((res) => res.json())
+    if (!searchModes.includes(mode)) {
+      throw new UserError(`Unsupported mode '${mode}'`, { searchModes })
+    }
 
-    const [results] = moderationResponse.results
+    for (const [field, value] of Object.entries({ full_text_weight, semantic_weight, rrf_k })) {
+      if (typeof value !== 'number' || !(value >= 0)) {
+        throw new UserError(`${field} must be a non-negative number`, { [field]: value })
+      }
+    }
 
-    if (results.flagged) {
-      throw new UserError('Flagged content', {
-        flagged: true,
-        categories: results.categories,
+    const searchFilters = parseSearchFilters(filters)
+    const sanitizedQuery = parseSearchQuery(query)
+    const matchThreshold = parseMatchThreshold(match_threshold)
+    const matchCount = parseMatchCount(match_count)
+    const efSearch = parseEfSearch(ef_search, matchCount)
+
+    // Moderate the content to comply with OpenAI T&C. Skipped when running without
+    // an OpenAI key, e.g. against a local or offline embedding provider.
+    if (openAiKey) {
+      const moderationResponse: CreateModerationResponse = await withRetry(async () => {
+        const response = await openai.createModeration({ input: sanitizedQuery }).catch((err) => {
+          throw new UpstreamError('Failed to reach moderation endpoint', { cause: String(err) })
+        })
+
+        if (!response.ok) {
+          throw await responseError('Failed to moderate content', response)
+        }
+
+        return response.json()
       })
-    }
 
-    // Create embedding from query
-    const embeddingResponse = await openai.createEmbedding({
-      model: 'text-embedding-ada-002',
-      input: sanitizedQuery.replaceAll('\n', ' '),
-    })
+      const [results] = moderationResponse.results
 
-    if (embeddingResponse.status !== 200) {
-      throw new ApplicationError('Failed to create embedding for question', embeddingResponse)
+      if (results.flagged) {
+        throw new UserError('Flagged content', {
+          flagged: true,
+          categories: results.categories,
+        })
+      }
     }
 
-    const {
-      data: [{ embedding }],
-    }: CreateEmbeddingResponse = await embeddingResponse.json()
-
-    const { error: matchError, data: pageSections } = await supabaseClient.rpc(
-      'match_page_sections',
-      {
-        embedding,
-        match_threshold: 0.78,
-        match_count,
-        min_content_length: 50,
-      }
-    )
+    // Create embedding from query, unless only searching by keyword. Keyword searches only
+    // need the model name, so they work without embedding provider credentials
+    const embeddingProvider = mode === 'keyword' ? null : getEmbeddingProvider()
+    const embeddingModel = embeddingProvider?.model ?? getEmbeddingModelConfig().model
+    const [queryEmbedding] = embeddingProvider
+      ? await createEmbeddings(
+          createCachedEmbeddingProvider(supabaseClient, rateLimit.meter(embeddingProvider)),
+          [sanitizedQuery]
+        )
+      : []
+
+    const matches = await matchPageSections(supabaseClient, {
+      mode,
+      query: sanitizedQuery,
+      embedding: queryEmbedding?.embedding,
+      embeddingModel,
+      matchThreshold,
+      matchCount,
+      minContentLength: minSearchableContentLength,
+      fullTextWeight: full_text_weight,
+      semanticWeight: semantic_weight,
+      rrfK: rrf_k,
+      filters: searchFilters,
+      efSearch,
+    })
 
-    if (matchError) {
-      throw new ApplicationError('Failed to match page sections', matchError)
-    }
+    if (format === 'answer') {
+      if (!openAiKey) {
+        throw new ApplicationError('Missing environment variable OPENAI_KEY')
+      }
 
-    const tokenizer = new GPT3Tokenizer({ type: 'gpt3' })
-    let tokenCount = 0
-    let contextText = ''
+      const sections = selectContextSections(matches).map(({ match, content }, i) => ({
+        source: toAnswerSource(match, i),
+        content,
+      }))
+      const messages = buildAnswerMessages(sanitizedQuery, sections)
+
+      const response = await withRetry(async () => {
+        const response = await openai
+          .createChatCompletion({
+            model: answerModel,
+            messages,
+            max_tokens: 512,
+            temperature: 0,
+            stream: true,
+          })
+          .catch((err) => {
+            throw new UpstreamError('Failed to reach chat completion endpoint', {
+              cause: String(err),
+            })
+          })
+
+        if (!response.ok) {
+          throw await responseError('Failed to generate completion', response)
+        }
 
-    for (let i = 0; i < pageSections.length; i++) {
-      const pageSection = pageSections[i]
-      const content = pageSection.content
-      const encoded = tokenizer.encode(content)
-      tokenCount += encoded.text.length
+        return response
+      })
 
-      if (tokenCount >= 5000) {
-        break
-      }
+      const stream = OpenAIStream(response, {
+        async onFinal(completion) {
+          // The stream has already been sent, so a failure to count tokens can only be logged
+          const promptTokens = countTokens(messages.map(({ content }) => content ?? '').join('\n'))
+          await rateLimit.recordTokens(promptTokens + countTokens(completion)).catch((err) => {
+            console.error('Failed to record answer tokens', err)
+          })
+        },
+      })
 
-      contextText += `${content.trim()}\n---\n`
+      return new StreamingTextResponse(stream, {
+        headers: {
+          ...rateLimit.headers,
+          [answerSourcesHeader]: encodeAnswerSources(sections.map(({ source }) => source)),
+        },
+      })
     }
 
-    return new Response(JSON.stringify({ contextText }))
-
-    // const prompt = codeBlock`
-    //   ${oneLine`
-    //     You are a very enthusiastic Supabase representative who loves
-    //     to help people! Given the following sections from the Supabase
-    //     documentation, answer the question using only that information,
-    //     outputted in markdown format. If you are unsure and the answer
-    //     is not explicitly written in the documentation, say
-    //     "Sorry, I don't know how to help with that."
-    //   `}
-
-    //   Context sections:
-    //   ${contextText}
-
-    //   Question: """
-    //   ${sanitizedQuery}
-    //   """
-
-    //   Answer as markdown (including related code snippets if available):
-    // `
-
-    // const chatMessage: ChatCompletionRequestMessage = {
-    //   role: 'user',
-    //   content: prompt,
-    // }
-
-    // const response = await openai.createChatCompletion({
-    //   model: 'gpt-3.5-turbo',
-    //   messages: [chatMessage],
-    //   max_tokens: 512,
-    //   temperature: 0,
-    //   stream: true,
-    // })
-
-    // if (!response.ok) {
-    //   const error = await response.json()
-    //   throw new ApplicationError('Failed to generate completion', error)
-    // }
-
-    // // Transform the response into a readable stream
-    // const stream = OpenAIStream(response)
-
-    // // Return a StreamingTextResponse, which can be consumed by the client
-    // return new StreamingTextResponse(stream)
-  } catch (err: unknown) {
-    if (err instanceof UserError) {
-      return new Response(
-        JSON.stringify({
-          error: err.message,
-          data: err.data,
-        }),
-        {
-          status: 400,
-          headers: { 'Content-Type': 'application/json' },
-        }
-      )
-    } else if (err instanceof ApplicationError) {
-      // Print out application errors with their additional data
-      console.error(`${err.message}: ${JSON.stringify(err.data)}`)
-    } else {
-      // Print out unexpected errors as is to help with debugging
-      console.error(err)
-    }
+    const contextText =
+      format === 'context' || includeContext ? buildContextText(matches) : undefined
 
-    // TODO: include more response info in debug environments
-    return new Response(
-      JSON.stringify({
-        error: 'There was an error processing your request',
-      }),
-      {
-        status: 500,
-        headers: { 'Content-Type': 'application/json' },
-      }
-    )
+    // `contextText` is left out of structured results unless it was asked for
+    const responseData =
+      format === 'results' ? { results: matches.map(toSearchResult), contextText } : { contextText }
+
+    return new Response(JSON.stringify(responseData), {
+      headers: { 'Content-Type': 'application/json', ...rateLimit.headers },
+    })
+  } catch (err: unknown) {
+    return errorResponse(err)
   }
 }
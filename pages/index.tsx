@@ -1,3 +1,4 @@
+import { ApiKeyInput } from '@/components/ApiKeyInput'
 import { ConversationEmbeddingGenerator } from '@/components/ConversationEmbeddingGenerator'
 import { ConversationEmbeddingsHistory } from '@/components/ConversationEmbeddingsHistory'
 import { ConversationSearch } from '@/components/ConversationSearch'
@@ -28,7 +29,10 @@ export default function Home() {
               Generate and search through content using OpenAI embeddings stored in Supabase.
             </p>
           </div>
-          <ThemeToggle />
+          <div className="flex items-center space-x-2">
+            <ApiKeyInput />
+            <ThemeToggle />
+          </div>
         </div>
 
         <Tabs defaultValue="document-search" className="w-full">
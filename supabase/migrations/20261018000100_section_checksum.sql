@@ -0,0 +1,4 @@
+-- Track a checksum per section so unchanged sections can be kept on re-ingestion
+alter table "public"."nods_page_section" add column checksum text;
+
+create index nods_page_section_page_id_checksum_idx on "public"."nods_page_section" (page_id, checksum);
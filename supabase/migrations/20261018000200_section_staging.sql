@@ -0,0 +1,60 @@
+-- New sections are embedded into a staging table first and only swapped
+-- into nods_page_section once every section of an ingestion has succeeded
+create table "public"."nods_page_section_staging" (
+  id bigserial primary key,
+  ingest_id uuid not null,
+  page_id bigint not null references public.nods_page on delete cascade,
+  content text,
+  token_count int,
+  embedding vector(1536),
+  slug text,
+  heading text,
+  checksum text,
+  created_at timestamptz not null default now()
+);
+alter table "public"."nods_page_section_staging" enable row level security;
+
+create index nods_page_section_staging_ingest_id_idx on "public"."nods_page_section_staging" (ingest_id);
+
+-- Replace the sections of a page with the staged ones in a single transaction.
+-- Sections listed in keep_section_ids are unchanged and stay in place.
+create or replace function swap_page_sections(ingest_id uuid, target_page_id bigint, keep_section_ids bigint[], new_checksum text)
+returns int
+language plpgsql
+as $$
+#variable_conflict use_variable
+declare
+  inserted_count int;
+begin
+  delete from nods_page_section
+  where nods_page_section.page_id = target_page_id
+  and not (nods_page_section.id = any(keep_section_ids));
+
+  insert into nods_page_section (page_id, content, token_count, embedding, slug, heading, checksum)
+  select
+    staging.page_id,
+    staging.content,
+    staging.token_count,
+    staging.embedding,
+    staging.slug,
+    staging.heading,
+    staging.checksum
+  from nods_page_section_staging as staging
+  where staging.ingest_id = ingest_id
+  and staging.page_id = target_page_id
+  order by staging.id;
+
+  get diagnostics inserted_count = row_count;
+
+  -- Clean up this run along with anything left behind by runs that never finished
+  delete from nods_page_section_staging as staging
+  where staging.ingest_id = ingest_id
+  or (staging.page_id = target_page_id and staging.created_at < now() - interval '1 day');
+
+  update nods_page
+  set checksum = new_checksum
+  where nods_page.id = target_page_id;
+
+  return inserted_count;
+end;
+$$;
@@ -0,0 +1,82 @@
+-- Oversized sections are split into chunks that share the section's heading and slug
+alter table "public"."nods_page_section" add column chunk_index int not null default 0;
+alter table "public"."nods_page_section_staging" add column chunk_index int not null default 0;
+
+create or replace function swap_page_sections(ingest_id uuid, target_page_id bigint, keep_section_ids bigint[], new_checksum text)
+returns int
+language plpgsql
+as $$
+#variable_conflict use_variable
+declare
+  inserted_count int;
+begin
+  delete from nods_page_section
+  where nods_page_section.page_id = target_page_id
+  and not (nods_page_section.id = any(keep_section_ids));
+
+  insert into nods_page_section (page_id, content, token_count, embedding, slug, heading, checksum, chunk_index)
+  select
+    staging.page_id,
+    staging.content,
+    staging.token_count,
+    staging.embedding,
+    staging.slug,
+    staging.heading,
+    staging.checksum,
+    staging.chunk_index
+  from nods_page_section_staging as staging
+  where staging.ingest_id = ingest_id
+  and staging.page_id = target_page_id
+  order by staging.id;
+
+  get diagnostics inserted_count = row_count;
+
+  -- Clean up this run along with anything left behind by runs that never finished
+  delete from nods_page_section_staging as staging
+  where staging.ingest_id = ingest_id
+  or (staging.page_id = target_page_id and staging.created_at < now() - interval '1 day');
+
+  update nods_page
+  set checksum = new_checksum
+  where nods_page.id = target_page_id;
+
+  return inserted_count;
+end;
+$$;
+
+-- Return the chunk index so matched chunks can be stitched back together
+drop function match_page_sections(vector(1536), float, int, int);
+
+create or replace function match_page_sections(embedding vector(1536), match_threshold float, match_count int, min_content_length int)
+returns table (id bigint, page_id bigint, slug text, heading text, chunk_index int, content text, similarity float)
+language plpgsql
+as $$
+#variable_conflict use_variable
+begin
+  return query
+  select
+    nods_page_section.id,
+    nods_page_section.page_id,
+    nods_page_section.slug,
+    nods_page_section.heading,
+    nods_page_section.chunk_index,
+    nods_page_section.content,
+    (nods_page_section.embedding <#> embedding) * -1 as similarity
+  from nods_page_section
+
+  -- We only care about sections that have a useful amount of content
+  where length(nods_page_section.content) >= min_content_length
+
+  -- The dot product is negative because of a Postgres limitation, so we negate it
+  and (nods_page_section.embedding <#> embedding) * -1 > match_threshold
+
+  -- OpenAI embeddings are normalized to length 1, so
+  -- cosine similarity and dot product will produce the same results.
+  -- Using dot product which can be computed slightly faster.
+  --
+  -- For the different syntaxes, see https://github.com/pgvector/pgvector
+  order by nods_page_section.embedding <#> embedding
+
+  limit match_count;
+end;
+$$;
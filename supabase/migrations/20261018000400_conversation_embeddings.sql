@@ -0,0 +1,47 @@
+-- Conversation embedding tables, as described in docs.md. These were originally created
+-- outside of migrations, so only create them when they don't exist yet.
+create table if not exists "public"."conversation_history" (
+  id bigserial primary key,
+  conversation_id text not null unique,
+  title text,
+  summary text,
+  created_at timestamptz not null default now(),
+  metadata jsonb
+);
+alter table "public"."conversation_history" enable row level security;
+
+create table if not exists "public"."conversation_message" (
+  id bigserial primary key,
+  conversation_id bigint not null references public.conversation_history on delete cascade,
+  role text not null check (role in ('user', 'assistant', 'system')),
+  content text not null,
+  created_at timestamptz not null default now(),
+  token_count int,
+  embedding vector(1536),
+  metadata jsonb
+);
+alter table "public"."conversation_message" enable row level security;
+
+create index if not exists conversation_message_conversation_id_idx on "public"."conversation_message" (conversation_id, created_at);
+
+create or replace function match_conversation_messages(query_embedding vector(1536), match_threshold float, match_count int, filter_conversation_id bigint default null)
+returns table (id bigint, conversation_id bigint, role text, content text, created_at timestamptz, similarity float)
+language plpgsql
+as $$
+#variable_conflict use_variable
+begin
+  return query
+  select
+    conversation_message.id,
+    conversation_message.conversation_id,
+    conversation_message.role,
+    conversation_message.content,
+    conversation_message.created_at,
+    (conversation_message.embedding <#> query_embedding) * -1 as similarity
+  from conversation_message
+  where (filter_conversation_id is null or conversation_message.conversation_id = filter_conversation_id)
+  and (conversation_message.embedding <#> query_embedding) * -1 > match_threshold
+  order by conversation_message.embedding <#> query_embedding
+  limit match_count;
+end;
+$$;
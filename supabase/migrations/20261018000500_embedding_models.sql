@@ -0,0 +1,161 @@
+-- Record the model and vector size of every embedding, so vectors from different models
+-- can live side by side while a corpus is re-embedded under a new model.
+--
+-- Cutover to a new model:
+--   1. Re-embed the corpus from a deployment or script configured with the new
+--      EMBEDDING_MODEL (and EMBEDDING_DIMENSIONS). Ingestion only replaces the sections of
+--      the model it embeds with, so the current vectors keep answering queries meanwhile.
+--   2. Switch EMBEDDING_MODEL (and EMBEDDING_DIMENSIONS) of the app to the new model.
+--   3. Remove the old vectors with `select delete_model_page_sections('<old model>');`
+--
+-- Conversation messages are embedded once when stored and are matched against queries
+-- from the same model only.
+alter table "public"."nods_page_section" alter column embedding type vector;
+alter table "public"."nods_page_section" add column embedding_model text not null default 'text-embedding-ada-002';
+alter table "public"."nods_page_section" add column embedding_dimensions int not null default 1536;
+
+alter table "public"."nods_page_section_staging" alter column embedding type vector;
+alter table "public"."nods_page_section_staging" add column embedding_model text not null default 'text-embedding-ada-002';
+alter table "public"."nods_page_section_staging" add column embedding_dimensions int not null default 1536;
+
+alter table "public"."conversation_message" alter column embedding type vector;
+alter table "public"."conversation_message" add column embedding_model text not null default 'text-embedding-ada-002';
+alter table "public"."conversation_message" add column embedding_dimensions int not null default 1536;
+
+drop index if exists nods_page_section_page_id_checksum_idx;
+create index nods_page_section_page_id_model_idx on "public"."nods_page_section" (page_id, embedding_model, embedding_dimensions);
+
+-- Only replace the sections embedded with the target model
+drop function swap_page_sections(uuid, bigint, bigint[], text);
+
+create or replace function swap_page_sections(ingest_id uuid, target_page_id bigint, keep_section_ids bigint[], new_checksum text, target_model text, target_dimensions int)
+returns int
+language plpgsql
+as $$
+#variable_conflict use_variable
+declare
+  inserted_count int;
+begin
+  delete from nods_page_section
+  where nods_page_section.page_id = target_page_id
+  and nods_page_section.embedding_model = target_model
+  and (target_dimensions is null or nods_page_section.embedding_dimensions = target_dimensions)
+  and not (nods_page_section.id = any(keep_section_ids));
+
+  insert into nods_page_section (page_id, content, token_count, embedding, embedding_model, embedding_dimensions, slug, heading, checksum, chunk_index)
+  select
+    staging.page_id,
+    staging.content,
+    staging.token_count,
+    staging.embedding,
+    staging.embedding_model,
+    staging.embedding_dimensions,
+    staging.slug,
+    staging.heading,
+    staging.checksum,
+    staging.chunk_index
+  from nods_page_section_staging as staging
+  where staging.ingest_id = ingest_id
+  and staging.page_id = target_page_id
+  order by staging.id;
+
+  get diagnostics inserted_count = row_count;
+
+  -- Clean up this run along with anything left behind by runs that never finished
+  delete from nods_page_section_staging as staging
+  where staging.ingest_id = ingest_id
+  or (staging.page_id = target_page_id and staging.created_at < now() - interval '1 day');
+
+  update nods_page
+  set checksum = new_checksum
+  where nods_page.id = target_page_id;
+
+  return inserted_count;
+end;
+$$;
+
+-- Only compare the query with vectors from the same model and of the same size
+drop function match_page_sections(vector(1536), float, int, int);
+
+create or replace function match_page_sections(embedding vector, embedding_model text, match_threshold float, match_count int, min_content_length int)
+returns table (id bigint, page_id bigint, slug text, heading text, chunk_index int, content text, similarity float)
+language plpgsql
+as $$
+#variable_conflict use_variable
+begin
+  return query
+  select
+    nods_page_section.id,
+    nods_page_section.page_id,
+    nods_page_section.slug,
+    nods_page_section.heading,
+    nods_page_section.chunk_index,
+    nods_page_section.content,
+    (nods_page_section.embedding <#> embedding) * -1 as similarity
+  from nods_page_section
+
+  -- Vectors from different models are not comparable
+  where nods_page_section.embedding_model = embedding_model
+  and nods_page_section.embedding_dimensions = vector_dims(embedding)
+
+  -- We only care about sections that have a useful amount of content
+  and length(nods_page_section.content) >= min_content_length
+
+  -- The dot product is negative because of a Postgres limitation, so we negate it
+  and (nods_page_section.embedding <#> embedding) * -1 > match_threshold
+
+  -- OpenAI embeddings are normalized to length 1, so
+  -- cosine similarity and dot product will produce the same results.
+  -- Using dot product which can be computed slightly faster.
+  --
+  -- For the different syntaxes, see https://github.com/pgvector/pgvector
+  order by nods_page_section.embedding <#> embedding
+
+  limit match_count;
+end;
+$$;
+
+drop function if exists match_conversation_messages(vector(1536), float, int, bigint);
+
+create or replace function match_conversation_messages(query_embedding vector, embedding_model text, match_threshold float, match_count int, filter_conversation_id bigint default null)
+returns table (id bigint, conversation_id bigint, role text, content text, created_at timestamptz, similarity float)
+language plpgsql
+as $$
+#variable_conflict use_variable
+begin
+  return query
+  select
+    conversation_message.id,
+    conversation_message.conversation_id,
+    conversation_message.role,
+    conversation_message.content,
+    conversation_message.created_at,
+    (conversation_message.embedding <#> query_embedding) * -1 as similarity
+  from conversation_message
+  where conversation_message.embedding_model = embedding_model
+  and conversation_message.embedding_dimensions = vector_dims(query_embedding)
+  and (filter_conversation_id is null or conversation_message.conversation_id = filter_conversation_id)
+  and (conversation_message.embedding <#> query_embedding) * -1 > match_threshold
+  order by conversation_message.embedding <#> query_embedding
+  limit match_count;
+end;
+$$;
+
+-- Remove the page sections of a model after cutting over to a new one
+create or replace function delete_model_page_sections(target_model text, target_dimensions int default null)
+returns bigint
+language plpgsql
+as $$
+#variable_conflict use_variable
+declare
+  deleted_count bigint;
+begin
+  delete from nods_page_section
+  where nods_page_section.embedding_model = target_model
+  and (target_dimensions is null or nods_page_section.embedding_dimensions = target_dimensions);
+
+  get diagnostics deleted_count = row_count;
+
+  return deleted_count;
+end;
+$$;
@@ -0,0 +1,32 @@
+-- Keep the source content of each page so the corpus can be re-chunked and re-embedded
+alter table "public"."nods_page" add column content text;
+
+-- Re-index jobs walk the matching pages in id order. The cursor (last_page_id) is advanced
+-- after every page, so an interrupted job resumes where it stopped.
+create table "public"."reindex_job" (
+  id bigserial primary key,
+  status text not null default 'pending' check (status in ('pending', 'running', 'completed', 'cancelled')),
+  filters jsonb not null default '{}'::jsonb,
+  embedding_model text,
+  total_count int not null default 0,
+  processed_count int not null default 0,
+  failed_count int not null default 0,
+  last_page_id bigint not null default 0,
+  locked_until timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  completed_at timestamptz
+);
+alter table "public"."reindex_job" enable row level security;
+
+create table "public"."reindex_job_failure" (
+  id bigserial primary key,
+  job_id bigint not null references public.reindex_job on delete cascade,
+  page_id bigint references public.nods_page on delete set null,
+  path text not null,
+  error jsonb,
+  created_at timestamptz not null default now()
+);
+alter table "public"."reindex_job_failure" enable row level security;
+
+create index reindex_job_failure_job_id_idx on "public"."reindex_job_failure" (job_id);
@@ -0,0 +1,38 @@
+-- Embeddings of previously seen inputs, keyed by the SHA-256 checksum of the input text
+-- as sent to the provider, so identical text is only embedded once per model
+create table "public"."embedding_cache" (
+  id bigserial primary key,
+  embedding_model text not null,
+  embedding_dimensions int not null,
+  checksum text not null,
+  embedding vector not null,
+  token_count int not null,
+  created_at timestamptz not null default now(),
+  unique (embedding_model, embedding_dimensions, checksum)
+);
+alter table "public"."embedding_cache" enable row level security;
+
+create table "public"."embedding_cache_stats" (
+  embedding_model text primary key,
+  hits bigint not null default 0,
+  misses bigint not null default 0,
+  saved_tokens bigint not null default 0,
+  updated_at timestamptz not null default now()
+);
+alter table "public"."embedding_cache_stats" enable row level security;
+
+create or replace function record_embedding_cache_stats(target_model text, hit_count int, miss_count int, saved_token_count int)
+returns void
+language plpgsql
+as $$
+#variable_conflict use_variable
+begin
+  insert into embedding_cache_stats (embedding_model, hits, misses, saved_tokens)
+  values (target_model, hit_count, miss_count, saved_token_count)
+  on conflict (embedding_model) do update set
+    hits = embedding_cache_stats.hits + excluded.hits,
+    misses = embedding_cache_stats.misses + excluded.misses,
+    saved_tokens = embedding_cache_stats.saved_tokens + excluded.saved_tokens,
+    updated_at = now();
+end;
+$$;
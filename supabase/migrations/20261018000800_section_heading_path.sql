@@ -0,0 +1,94 @@
+-- Store the headings enclosing every section (H1 › H2 › H3), so matches can show where in
+-- the document they came from. Sections stored before this migration have an empty path
+-- until their page is re-embedded, e.g. with a re-index job (`POST /api/reindex`).
+alter table "public"."nods_page_section" add column heading_path text[] not null default '{}';
+alter table "public"."nods_page_section_staging" add column heading_path text[] not null default '{}';
+
+create or replace function swap_page_sections(ingest_id uuid, target_page_id bigint, keep_section_ids bigint[], new_checksum text, target_model text, target_dimensions int)
+returns int
+language plpgsql
+as $$
+#variable_conflict use_variable
+declare
+  inserted_count int;
+begin
+  delete from nods_page_section
+  where nods_page_section.page_id = target_page_id
+  and nods_page_section.embedding_model = target_model
+  and (target_dimensions is null or nods_page_section.embedding_dimensions = target_dimensions)
+  and not (nods_page_section.id = any(keep_section_ids));
+
+  insert into nods_page_section (page_id, content, token_count, embedding, embedding_model, embedding_dimensions, slug, heading, heading_path, checksum, chunk_index)
+  select
+    staging.page_id,
+    staging.content,
+    staging.token_count,
+    staging.embedding,
+    staging.embedding_model,
+    staging.embedding_dimensions,
+    staging.slug,
+    staging.heading,
+    staging.heading_path,
+    staging.checksum,
+    staging.chunk_index
+  from nods_page_section_staging as staging
+  where staging.ingest_id = ingest_id
+  and staging.page_id = target_page_id
+  order by staging.id;
+
+  get diagnostics inserted_count = row_count;
+
+  -- Clean up this run along with anything left behind by runs that never finished
+  delete from nods_page_section_staging as staging
+  where staging.ingest_id = ingest_id
+  or (staging.page_id = target_page_id and staging.created_at < now() - interval '1 day');
+
+  update nods_page
+  set checksum = new_checksum
+  where nods_page.id = target_page_id;
+
+  return inserted_count;
+end;
+$$;
+
+-- The returned columns change, so the function has to be recreated
+drop function match_page_sections(vector, text, float, int, int);
+
+create or replace function match_page_sections(embedding vector, embedding_model text, match_threshold float, match_count int, min_content_length int)
+returns table (id bigint, page_id bigint, slug text, heading text, heading_path text[], chunk_index int, content text, similarity float)
+language plpgsql
+as $$
+#variable_conflict use_variable
+begin
+  return query
+  select
+    nods_page_section.id,
+    nods_page_section.page_id,
+    nods_page_section.slug,
+    nods_page_section.heading,
+    nods_page_section.heading_path,
+    nods_page_section.chunk_index,
+    nods_page_section.content,
+    (nods_page_section.embedding <#> embedding) * -1 as similarity
+  from nods_page_section
+
+  -- Vectors from different models are not comparable
+  where nods_page_section.embedding_model = embedding_model
+  and nods_page_section.embedding_dimensions = vector_dims(embedding)
+
+  -- We only care about sections that have a useful amount of content
+  and length(nods_page_section.content) >= min_content_length
+
+  -- The dot product is negative because of a Postgres limitation, so we negate it
+  and (nods_page_section.embedding <#> embedding) * -1 > match_threshold
+
+  -- OpenAI embeddings are normalized to length 1, so
+  -- cosine similarity and dot product will produce the same results.
+  -- Using dot product which can be computed slightly faster.
+  --
+  -- For the different syntaxes, see https://github.com/pgvector/pgvector
+  order by nods_page_section.embedding <#> embedding
+
+  limit match_count;
+end;
+$$;
@@ -0,0 +1,29 @@
+-- Remove a page along with its sections. Child pages are detached rather than removed.
+-- Returns the number of sections removed, or null when the page doesn't exist.
+create or replace function delete_page(target_page_id bigint)
+returns bigint
+language plpgsql
+as $$
+#variable_conflict use_variable
+declare
+  deleted_count bigint;
+begin
+  if not exists (select 1 from nods_page where nods_page.id = target_page_id) then
+    return null;
+  end if;
+
+  update nods_page
+  set parent_page_id = null
+  where nods_page.parent_page_id = target_page_id;
+
+  delete from nods_page_section
+  where nods_page_section.page_id = target_page_id;
+
+  get diagnostics deleted_count = row_count;
+
+  delete from nods_page
+  where nods_page.id = target_page_id;
+
+  return deleted_count;
+end;
+$$;
@@ -0,0 +1,19 @@
+-- Record when pages are created and last updated, for the history views
+alter table "public"."nods_page" add column created_at timestamptz not null default now();
+alter table "public"."nods_page" add column updated_at timestamptz not null default now();
+
+create index nods_page_updated_at_idx on "public"."nods_page" (updated_at desc);
+
+create or replace function set_updated_at()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.updated_at = now();
+  return new;
+end;
+$$;
+
+create trigger nods_page_set_updated_at
+before update on "public"."nods_page"
+for each row execute function set_updated_at();
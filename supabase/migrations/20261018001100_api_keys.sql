@@ -0,0 +1,17 @@
+-- API keys for the routes in `pages/api`. Only the SHA-256 hash of a key is stored, the key
+-- itself is shown once when it is created. `key_prefix` identifies a key in listings.
+create table "public"."api_key" (
+  id bigserial primary key,
+  name text not null,
+  key_hash text not null unique,
+  key_prefix text not null,
+  scopes text[] not null check (
+    cardinality(scopes) > 0
+    and scopes <@ array['ingest', 'search', 'conversations:read', 'conversations:write', 'admin']
+  ),
+  expires_at timestamptz,
+  last_used_at timestamptz,
+  revoked_at timestamptz,
+  created_at timestamptz not null default now()
+);
+alter table "public"."api_key" enable row level security;
@@ -0,0 +1,44 @@
+-- Fixed window counters for rate limits and token quotas, so limits hold across edge
+-- instances without a separate store. A subject is an API key (`key:<id>`) or, for the
+-- `ADMIN_API_KEY`, a client IP (`ip:<address>`).
+create table "public"."rate_limit_counter" (
+  subject text not null,
+  bucket text not null,
+  window_start timestamptz not null,
+  count bigint not null default 0,
+  primary key (subject, bucket, window_start)
+);
+alter table "public"."rate_limit_counter" enable row level security;
+
+-- Per key overrides of `RATE_LIMIT_REQUESTS_PER_MINUTE` and `RATE_LIMIT_DAILY_TOKENS`
+alter table "public"."api_key" add column requests_per_minute int check (requests_per_minute >= 0);
+alter table "public"."api_key" add column daily_token_quota bigint check (daily_token_quota >= 0);
+
+-- Adds `amount` to the counter of the current window and returns its new value, along with
+-- when the window ends. An `amount` of 0 reads the counter.
+create or replace function hit_rate_limit(target_subject text, target_bucket text, window_seconds int, amount bigint)
+returns table (count bigint, reset_at timestamptz)
+language plpgsql
+as $$
+#variable_conflict use_variable
+declare
+  current_window_start timestamptz;
+  current_count bigint;
+begin
+  current_window_start := to_timestamp(floor(extract(epoch from now()) / window_seconds) * window_seconds);
+
+  insert into rate_limit_counter (subject, bucket, window_start, count)
+  values (target_subject, target_bucket, current_window_start, amount)
+  on conflict (subject, bucket, window_start)
+  do update set count = rate_limit_counter.count + excluded.count
+  returning rate_limit_counter.count into current_count;
+
+  -- Earlier windows of this counter are no longer needed
+  delete from rate_limit_counter
+  where rate_limit_counter.subject = target_subject
+  and rate_limit_counter.bucket = target_bucket
+  and rate_limit_counter.window_start < current_window_start;
+
+  return query select current_count, current_window_start + make_interval(secs => window_seconds);
+end;
+$$;
@@ -0,0 +1,45 @@
+-- Return the page path and token count of every match, so search results can link to the
+-- matched section and report its size without another query
+drop function match_page_sections(vector, text, float, int, int);
+
+create or replace function match_page_sections(embedding vector, embedding_model text, match_threshold float, match_count int, min_content_length int)
+returns table (id bigint, page_id bigint, path text, slug text, heading text, heading_path text[], chunk_index int, content text, token_count int, similarity float)
+language plpgsql
+as $$
+#variable_conflict use_variable
+begin
+  return query
+  select
+    nods_page_section.id,
+    nods_page_section.page_id,
+    nods_page.path,
+    nods_page_section.slug,
+    nods_page_section.heading,
+    nods_page_section.heading_path,
+    nods_page_section.chunk_index,
+    nods_page_section.content,
+    nods_page_section.token_count,
+    (nods_page_section.embedding <#> embedding) * -1 as similarity
+  from nods_page_section
+  join nods_page on nods_page.id = nods_page_section.page_id
+
+  -- Vectors from different models are not comparable
+  where nods_page_section.embedding_model = embedding_model
+  and nods_page_section.embedding_dimensions = vector_dims(embedding)
+
+  -- We only care about sections that have a useful amount of content
+  and length(nods_page_section.content) >= min_content_length
+
+  -- The dot product is negative because of a Postgres limitation, so we negate it
+  and (nods_page_section.embedding <#> embedding) * -1 > match_threshold
+
+  -- OpenAI embeddings are normalized to length 1, so
+  -- cosine similarity and dot product will produce the same results.
+  -- Using dot product which can be computed slightly faster.
+  --
+  -- For the different syntaxes, see https://github.com/pgvector/pgvector
+  order by nods_page_section.embedding <#> embedding
+
+  limit match_count;
+end;
+$$;
@@ -0,0 +1,126 @@
+-- Full-text search over each section's heading and content, so exact terms like error codes,
+-- config keys and function names can be matched alongside embeddings
+alter table "public"."nods_page_section"
+  add column fts tsvector generated always as (
+    to_tsvector('english', coalesce(heading, '') || ' ' || content)
+  ) stored;
+
+create index nods_page_section_fts_idx on "public"."nods_page_section" using gin (fts);
+
+-- Matches sections by keyword only, ranked by `ts_rank_cd`. `query_text` uses web search syntax,
+-- e.g. quoted phrases and `-excluded` terms
+create or replace function keyword_match_page_sections(query_text text, embedding_model text, match_count int, min_content_length int)
+returns table (id bigint, page_id bigint, path text, slug text, heading text, heading_path text[], chunk_index int, content text, token_count int, similarity float, keyword_rank float, score float)
+language plpgsql
+as $$
+#variable_conflict use_variable
+declare
+  ts_query tsquery := websearch_to_tsquery('english', query_text);
+begin
+  return query
+  select
+    nods_page_section.id,
+    nods_page_section.page_id,
+    nods_page.path,
+    nods_page_section.slug,
+    nods_page_section.heading,
+    nods_page_section.heading_path,
+    nods_page_section.chunk_index,
+    nods_page_section.content,
+    nods_page_section.token_count,
+    null::float as similarity,
+    ts_rank_cd(nods_page_section.fts, ts_query)::float as keyword_rank,
+    ts_rank_cd(nods_page_section.fts, ts_query)::float as score
+  from nods_page_section
+  join nods_page on nods_page.id = nods_page_section.page_id
+
+  where nods_page_section.fts @@ ts_query
+
+  -- Only search sections embedded with the current model, as other models' sections are stale
+  and nods_page_section.embedding_model = embedding_model
+  and length(nods_page_section.content) >= min_content_length
+
+  order by ts_rank_cd(nods_page_section.fts, ts_query) desc
+
+  limit match_count;
+end;
+$$;
+
+-- Runs keyword and vector retrieval and fuses their rankings with reciprocal rank fusion:
+-- each section scores `weight / (rrf_k + rank)` for every list it appears in. Raise
+-- `full_text_weight` or `semantic_weight` to favour one kind of match over the other.
+create or replace function hybrid_match_page_sections(
+  query_text text,
+  embedding vector,
+  embedding_model text,
+  match_threshold float,
+  match_count int,
+  min_content_length int,
+  full_text_weight float default 1,
+  semantic_weight float default 1,
+  rrf_k int default 50
+)
+returns table (id bigint, page_id bigint, path text, slug text, heading text, heading_path text[], chunk_index int, content text, token_count int, similarity float, keyword_rank float, score float)
+language plpgsql
+as $$
+#variable_conflict use_variable
+declare
+  ts_query tsquery := websearch_to_tsquery('english', query_text);
+begin
+  return query
+  with full_text as (
+    select
+      nods_page_section.id,
+      ts_rank_cd(nods_page_section.fts, ts_query)::float as keyword_rank,
+      row_number() over (order by ts_rank_cd(nods_page_section.fts, ts_query) desc) as rank_ix
+    from nods_page_section
+    where nods_page_section.fts @@ ts_query
+    and nods_page_section.embedding_model = embedding_model
+    and length(nods_page_section.content) >= min_content_length
+    order by rank_ix
+    -- Look past `match_count` in each list, so sections ranked well by both can win
+    limit match_count * 2
+  ),
+  semantic as (
+    select
+      nods_page_section.id,
+      (nods_page_section.embedding <#> embedding) * -1 as similarity,
+      row_number() over (order by nods_page_section.embedding <#> embedding) as rank_ix
+    from nods_page_section
+    where nods_page_section.embedding_model = embedding_model
+    and nods_page_section.embedding_dimensions = vector_dims(embedding)
+    and length(nods_page_section.content) >= min_content_length
+    and (nods_page_section.embedding <#> embedding) * -1 > match_threshold
+    order by rank_ix
+    limit match_count * 2
+  ),
+  fused as (
+    select
+      coalesce(full_text.id, semantic.id) as id,
+      semantic.similarity,
+      full_text.keyword_rank,
+      coalesce(1.0 / (rrf_k + full_text.rank_ix), 0.0) * full_text_weight +
+      coalesce(1.0 / (rrf_k + semantic.rank_ix), 0.0) * semantic_weight as score
+    from full_text
+    full outer join semantic on semantic.id = full_text.id
+  )
+  select
+    nods_page_section.id,
+    nods_page_section.page_id,
+    nods_page.path,
+    nods_page_section.slug,
+    nods_page_section.heading,
+    nods_page_section.heading_path,
+    nods_page_section.chunk_index,
+    nods_page_section.content,
+    nods_page_section.token_count,
+    fused.similarity,
+    fused.keyword_rank,
+    fused.score::float
+  from fused
+  join nods_page_section on nods_page_section.id = fused.id
+  join nods_page on nods_page.id = nods_page_section.page_id
+  order by fused.score desc
+  limit match_count;
+end;
+$$;
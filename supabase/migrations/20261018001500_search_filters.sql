@@ -0,0 +1,245 @@
+-- Walks down from a page to all of its descendants, the page itself included. The reverse of
+-- `get_page_parents`
+create or replace function get_page_descendants(page_id bigint)
+returns table (id bigint, parent_page_id bigint, path text, meta jsonb)
+language sql
+as $$
+  with recursive tree as (
+    select *
+    from nods_page
+    where id = page_id
+
+    union all
+
+    select child.*
+      from nods_page as child
+      join tree on child.parent_page_id = tree.id
+  )
+  select id, parent_page_id, path, meta
+  from tree;
+$$;
+
+-- Pages matching every filter that is set. Stable so the planner can inline it into the
+-- match functions' queries
+create or replace function filter_page_ids(filter_source text, filter_type text, filter_path_prefix text, filter_parent_page_id bigint, filter_meta jsonb)
+returns table (id bigint)
+language sql
+stable
+as $$
+  select nods_page.id
+  from nods_page
+  where (filter_source is null or nods_page.source = filter_source)
+  and (filter_type is null or nods_page.type = filter_type)
+  and (filter_path_prefix is null or starts_with(nods_page.path, filter_path_prefix))
+  and (filter_meta is null or nods_page.meta @> filter_meta)
+  and (
+    filter_parent_page_id is null
+    or nods_page.id in (select descendants.id from get_page_descendants(filter_parent_page_id) as descendants)
+  );
+$$;
+
+-- Containment queries like `meta @> '{"tags": ["billing"]}'` can use this index
+create index nods_page_meta_idx on "public"."nods_page" using gin (meta jsonb_path_ops);
+
+-- Every match function takes the same optional filters, so a search can be limited to one
+-- product area
+drop function match_page_sections(vector, text, float, int, int);
+drop function keyword_match_page_sections(text, text, int, int);
+drop function hybrid_match_page_sections(text, vector, text, float, int, int, float, float, int);
+
+create or replace function match_page_sections(
+  embedding vector,
+  embedding_model text,
+  match_threshold float,
+  match_count int,
+  min_content_length int,
+  filter_source text default null,
+  filter_type text default null,
+  filter_path_prefix text default null,
+  filter_parent_page_id bigint default null,
+  filter_meta jsonb default null
+)
+returns table (id bigint, page_id bigint, path text, slug text, heading text, heading_path text[], chunk_index int, content text, token_count int, similarity float)
+language plpgsql
+as $$
+#variable_conflict use_variable
+begin
+  return query
+  select
+    nods_page_section.id,
+    nods_page_section.page_id,
+    nods_page.path,
+    nods_page_section.slug,
+    nods_page_section.heading,
+    nods_page_section.heading_path,
+    nods_page_section.chunk_index,
+    nods_page_section.content,
+    nods_page_section.token_count,
+    (nods_page_section.embedding <#> embedding) * -1 as similarity
+  from nods_page_section
+  join nods_page on nods_page.id = nods_page_section.page_id
+
+  -- Vectors from different models are not comparable
+  where nods_page_section.embedding_model = embedding_model
+  and nods_page_section.embedding_dimensions = vector_dims(embedding)
+
+  -- We only care about sections that have a useful amount of content
+  and length(nods_page_section.content) >= min_content_length
+
+  and nods_page_section.page_id in (
+    select filtered.id
+    from filter_page_ids(filter_source, filter_type, filter_path_prefix, filter_parent_page_id, filter_meta) as filtered
+  )
+
+  -- The dot product is negative because of a Postgres limitation, so we negate it
+  and (nods_page_section.embedding <#> embedding) * -1 > match_threshold
+
+  -- OpenAI embeddings are normalized to length 1, so
+  -- cosine similarity and dot product will produce the same results.
+  -- Using dot product which can be computed slightly faster.
+  --
+  -- For the different syntaxes, see https://github.com/pgvector/pgvector
+  order by nods_page_section.embedding <#> embedding
+
+  limit match_count;
+end;
+$$;
+
+create or replace function keyword_match_page_sections(
+  query_text text,
+  embedding_model text,
+  match_count int,
+  min_content_length int,
+  filter_source text default null,
+  filter_type text default null,
+  filter_path_prefix text default null,
+  filter_parent_page_id bigint default null,
+  filter_meta jsonb default null
+)
+returns table (id bigint, page_id bigint, path text, slug text, heading text, heading_path text[], chunk_index int, content text, token_count int, similarity float, keyword_rank float, score float)
+language plpgsql
+as $$
+#variable_conflict use_variable
+declare
+  ts_query tsquery := websearch_to_tsquery('english', query_text);
+begin
+  return query
+  select
+    nods_page_section.id,
+    nods_page_section.page_id,
+    nods_page.path,
+    nods_page_section.slug,
+    nods_page_section.heading,
+    nods_page_section.heading_path,
+    nods_page_section.chunk_index,
+    nods_page_section.content,
+    nods_page_section.token_count,
+    null::float as similarity,
+    ts_rank_cd(nods_page_section.fts, ts_query)::float as keyword_rank,
+    ts_rank_cd(nods_page_section.fts, ts_query)::float as score
+  from nods_page_section
+  join nods_page on nods_page.id = nods_page_section.page_id
+
+  where nods_page_section.fts @@ ts_query
+
+  -- Only search sections embedded with the current model, as other models' sections are stale
+  and nods_page_section.embedding_model = embedding_model
+  and length(nods_page_section.content) >= min_content_length
+
+  and nods_page_section.page_id in (
+    select filtered.id
+    from filter_page_ids(filter_source, filter_type, filter_path_prefix, filter_parent_page_id, filter_meta) as filtered
+  )
+
+  order by ts_rank_cd(nods_page_section.fts, ts_query) desc
+
+  limit match_count;
+end;
+$$;
+
+create or replace function hybrid_match_page_sections(
+  query_text text,
+  embedding vector,
+  embedding_model text,
+  match_threshold float,
+  match_count int,
+  min_content_length int,
+  full_text_weight float default 1,
+  semantic_weight float default 1,
+  rrf_k int default 50,
+  filter_source text default null,
+  filter_type text default null,
+  filter_path_prefix text default null,
+  filter_parent_page_id bigint default null,
+  filter_meta jsonb default null
+)
+returns table (id bigint, page_id bigint, path text, slug text, heading text, heading_path text[], chunk_index int, content text, token_count int, similarity float, keyword_rank float, score float)
+language plpgsql
+as $$
+#variable_conflict use_variable
+declare
+  ts_query tsquery := websearch_to_tsquery('english', query_text);
+begin
+  return query
+  with filtered as (
+    select filtered_page.id
+    from filter_page_ids(filter_source, filter_type, filter_path_prefix, filter_parent_page_id, filter_meta) as filtered_page
+  ),
+  full_text as (
+    select
+      nods_page_section.id,
+      ts_rank_cd(nods_page_section.fts, ts_query)::float as keyword_rank,
+      row_number() over (order by ts_rank_cd(nods_page_section.fts, ts_query) desc) as rank_ix
+    from nods_page_section
+    where nods_page_section.fts @@ ts_query
+    and nods_page_section.embedding_model = embedding_model
+    and length(nods_page_section.content) >= min_content_length
+    and nods_page_section.page_id in (select filtered.id from filtered)
+    order by rank_ix
+    -- Look past `match_count` in each list, so sections ranked well by both can win
+    limit match_count * 2
+  ),
+  semantic as (
+    select
+      nods_page_section.id,
+      (nods_page_section.embedding <#> embedding) * -1 as similarity,
+      row_number() over (order by nods_page_section.embedding <#> embedding) as rank_ix
+    from nods_page_section
+    where nods_page_section.embedding_model = embedding_model
+    and nods_page_section.embedding_dimensions = vector_dims(embedding)
+    and length(nods_page_section.content) >= min_content_length
+    and nods_page_section.page_id in (select filtered.id from filtered)
+    and (nods_page_section.embedding <#> embedding) * -1 > match_threshold
+    order by rank_ix
+    limit match_count * 2
+  ),
+  fused as (
+    select
+      coalesce(full_text.id, semantic.id) as id,
+      semantic.similarity,
+      full_text.keyword_rank,
+      coalesce(1.0 / (rrf_k + full_text.rank_ix), 0.0) * full_text_weight +
+      coalesce(1.0 / (rrf_k + semantic.rank_ix), 0.0) * semantic_weight as score
+    from full_text
+    full outer join semantic on semantic.id = full_text.id
+  )
+  select
+    nods_page_section.id,
+    nods_page_section.page_id,
+    nods_page.path,
+    nods_page_section.slug,
+    nods_page_section.heading,
+    nods_page_section.heading_path,
+    nods_page_section.chunk_index,
+    nods_page_section.content,
+    nods_page_section.token_count,
+    fused.similarity,
+    fused.keyword_rank,
+    fused.score::float
+  from fused
+  join nods_page_section on nods_page_section.id = fused.id
+  join nods_page on nods_page.id = nods_page_section.page_id
+  order by fused.score desc
+  limit match_count;
+end;
+$$;
@@ -0,0 +1,302 @@
+-- Approximate nearest neighbour (HNSW) indexes on the section and conversation message
+-- embeddings, so vector searches don't compute the distance to every row.
+--
+-- The embedding columns hold vectors of any size, one model next to another, but an HNSW
+-- index needs a fixed size. So every model gets partial indexes on its vectors cast to their
+-- size, which the match functions below query with the same cast. Create the indexes of a new
+-- model before switching to it:
+--
+--   select create_embedding_indexes('text-embedding-3-small', 1536);
+--
+-- The index is built in a transaction that blocks writes to the table. For large tables, run
+-- the `create index concurrently` statements it would execute by hand instead.
+
+create or replace function create_embedding_indexes(target_model text, target_dimensions int)
+returns void
+language plpgsql
+as $$
+#variable_conflict use_variable
+declare
+  -- Model names may not be valid identifiers, so indexes are named by a hash of the model
+  index_suffix text := substr(md5(target_model || ':' || target_dimensions), 1, 12);
+begin
+  -- HNSW indexes in pgvector support up to 2000 dimensions
+  if target_dimensions > 2000 then
+    raise exception 'HNSW indexes support at most 2000 dimensions, % has %', target_model, target_dimensions;
+  end if;
+
+  -- Inner product, as the match functions order by `<#>`
+  execute format(
+    'create index if not exists %I on nods_page_section using hnsw ((embedding::vector(%s)) vector_ip_ops) where embedding_model = %L and embedding_dimensions = %s',
+    'nods_page_section_embedding_' || index_suffix || '_idx',
+    target_dimensions,
+    target_model,
+    target_dimensions
+  );
+
+  execute format(
+    'create index if not exists %I on conversation_message using hnsw ((embedding::vector(%s)) vector_ip_ops) where embedding_model = %L and embedding_dimensions = %s',
+    'conversation_message_embedding_' || index_suffix || '_idx',
+    target_dimensions,
+    target_model,
+    target_dimensions
+  );
+end;
+$$;
+
+select create_embedding_indexes('text-embedding-ada-002', 1536);
+
+-- The match functions find the nearest vectors first and apply the similarity threshold
+-- afterwards: a threshold on the distance can't be answered by the index, so filtering on it
+-- in the same query makes the planner fall back to a sequential scan. The queries are built
+-- with the vector size of the query embedding, so they match the partial indexes' expressions.
+--
+-- `ef_search` sets `hnsw.ef_search` for the query (default 40, at most 1000): how many
+-- candidates the index scan keeps. Higher values raise recall and latency. An index scan
+-- returns at most `ef_search` rows before filters are applied, so raise it with `match_count`
+-- or when filters exclude most sections.
+drop function match_page_sections(vector, text, float, int, int, text, text, text, bigint, jsonb);
+drop function hybrid_match_page_sections(text, vector, text, float, int, int, float, float, int, text, text, text, bigint, jsonb);
+drop function match_conversation_messages(vector, text, float, int, bigint);
+
+create or replace function match_page_sections(
+  embedding vector,
+  embedding_model text,
+  match_threshold float,
+  match_count int,
+  min_content_length int,
+  filter_source text default null,
+  filter_type text default null,
+  filter_path_prefix text default null,
+  filter_parent_page_id bigint default null,
+  filter_meta jsonb default null,
+  ef_search int default null
+)
+returns table (id bigint, page_id bigint, path text, slug text, heading text, heading_path text[], chunk_index int, content text, token_count int, similarity float)
+language plpgsql
+as $$
+#variable_conflict use_variable
+begin
+  if ef_search is not null then
+    perform set_config('hnsw.ef_search', ef_search::text, true);
+  end if;
+
+  return query execute format(
+    $query$
+      select *
+      from (
+        select
+          nods_page_section.id,
+          nods_page_section.page_id,
+          nods_page.path,
+          nods_page_section.slug,
+          nods_page_section.heading,
+          nods_page_section.heading_path,
+          nods_page_section.chunk_index,
+          nods_page_section.content,
+          nods_page_section.token_count,
+          (nods_page_section.embedding::vector(%1$s) <#> $1::vector(%1$s)) * -1 as similarity
+        from nods_page_section
+        join nods_page on nods_page.id = nods_page_section.page_id
+
+        -- Vectors from different models are not comparable
+        where nods_page_section.embedding_model = %2$L
+        and nods_page_section.embedding_dimensions = %1$s
+
+        -- We only care about sections that have a useful amount of content
+        and length(nods_page_section.content) >= $2
+
+        and nods_page_section.page_id in (
+          select filtered.id
+          from filter_page_ids($3, $4, $5, $6, $7) as filtered
+        )
+
+        -- OpenAI embeddings are normalized to length 1, so
+        -- cosine similarity and dot product will produce the same results.
+        -- Using dot product which can be computed slightly faster.
+        --
+        -- For the different syntaxes, see https://github.com/pgvector/pgvector
+        order by nods_page_section.embedding::vector(%1$s) <#> $1::vector(%1$s)
+
+        limit $8
+      ) as matches
+
+      -- The dot product is negative because of a Postgres limitation, so we negate it
+      where matches.similarity > $9
+      order by matches.similarity desc
+    $query$,
+    vector_dims(embedding),
+    embedding_model
+  )
+  using embedding, min_content_length, filter_source, filter_type, filter_path_prefix, filter_parent_page_id, filter_meta, match_count, match_threshold;
+end;
+$$;
+
+create or replace function hybrid_match_page_sections(
+  query_text text,
+  embedding vector,
+  embedding_model text,
+  match_threshold float,
+  match_count int,
+  min_content_length int,
+  full_text_weight float default 1,
+  semantic_weight float default 1,
+  rrf_k int default 50,
+  filter_source text default null,
+  filter_type text default null,
+  filter_path_prefix text default null,
+  filter_parent_page_id bigint default null,
+  filter_meta jsonb default null,
+  ef_search int default null
+)
+returns table (id bigint, page_id bigint, path text, slug text, heading text, heading_path text[], chunk_index int, content text, token_count int, similarity float, keyword_rank float, score float)
+language plpgsql
+as $$
+#variable_conflict use_variable
+begin
+  if ef_search is not null then
+    perform set_config('hnsw.ef_search', ef_search::text, true);
+  end if;
+
+  return query execute format(
+    $query$
+      with filtered as (
+        select filtered_page.id
+        from filter_page_ids($3, $4, $5, $6, $7) as filtered_page
+      ),
+      full_text as (
+        select
+          nods_page_section.id,
+          ts_rank_cd(nods_page_section.fts, websearch_to_tsquery('english', $1))::float as keyword_rank,
+          row_number() over (order by ts_rank_cd(nods_page_section.fts, websearch_to_tsquery('english', $1)) desc) as rank_ix
+        from nods_page_section
+        where nods_page_section.fts @@ websearch_to_tsquery('english', $1)
+        and nods_page_section.embedding_model = %2$L
+        and length(nods_page_section.content) >= $8
+        and nods_page_section.page_id in (select filtered.id from filtered)
+        order by rank_ix
+        -- Look past `match_count` in each list, so sections ranked well by both can win
+        limit $9 * 2
+      ),
+      nearest as (
+        -- Ordered by distance alone, so the index can find the nearest sections
+        select
+          nods_page_section.id,
+          (nods_page_section.embedding::vector(%1$s) <#> $2::vector(%1$s)) * -1 as similarity
+        from nods_page_section
+        where nods_page_section.embedding_model = %2$L
+        and nods_page_section.embedding_dimensions = %1$s
+        and length(nods_page_section.content) >= $8
+        and nods_page_section.page_id in (select filtered.id from filtered)
+        order by nods_page_section.embedding::vector(%1$s) <#> $2::vector(%1$s)
+        limit $9 * 2
+      ),
+      semantic as (
+        select
+          nearest.id,
+          nearest.similarity,
+          row_number() over (order by nearest.similarity desc) as rank_ix
+        from nearest
+        where nearest.similarity > $10
+      ),
+      fused as (
+        select
+          coalesce(full_text.id, semantic.id) as id,
+          semantic.similarity,
+          full_text.keyword_rank,
+          coalesce(1.0 / ($13 + full_text.rank_ix), 0.0) * $11 +
+          coalesce(1.0 / ($13 + semantic.rank_ix), 0.0) * $12 as score
+        from full_text
+        full outer join semantic on semantic.id = full_text.id
+      )
+      select
+        nods_page_section.id,
+        nods_page_section.page_id,
+        nods_page.path,
+        nods_page_section.slug,
+        nods_page_section.heading,
+        nods_page_section.heading_path,
+        nods_page_section.chunk_index,
+        nods_page_section.content,
+        nods_page_section.token_count,
+        fused.similarity,
+        fused.keyword_rank,
+        fused.score::float
+      from fused
+      join nods_page_section on nods_page_section.id = fused.id
+      join nods_page on nods_page.id = nods_page_section.page_id
+      order by fused.score desc
+      limit $9
+    $query$,
+    vector_dims(embedding),
+    embedding_model
+  )
+  using query_text, embedding, filter_source, filter_type, filter_path_prefix, filter_parent_page_id, filter_meta, min_content_length, match_count, match_threshold, full_text_weight, semantic_weight, rrf_k;
+end;
+$$;
+
+create or replace function match_conversation_messages(
+  query_embedding vector,
+  embedding_model text,
+  match_threshold float,
+  match_count int,
+  filter_conversation_id bigint default null,
+  ef_search int default null
+)
+returns table (id bigint, conversation_id bigint, role text, content text, created_at timestamptz, similarity float)
+language plpgsql
+as $$
+#variable_conflict use_variable
+begin
+  if ef_search is not null then
+    perform set_config('hnsw.ef_search', ef_search::text, true);
+  end if;
+
+  return query execute format(
+    $query$
+      select *
+      from (
+        select
+          conversation_message.id,
+          conversation_message.conversation_id,
+          conversation_message.role,
+          conversation_message.content,
+          conversation_message.created_at,
+          (conversation_message.embedding::vector(%1$s) <#> $1::vector(%1$s)) * -1 as similarity
+        from conversation_message
+        where conversation_message.embedding_model = %2$L
+        and conversation_message.embedding_dimensions = %1$s
+        and ($2::bigint is null or conversation_message.conversation_id = $2)
+        order by conversation_message.embedding::vector(%1$s) <#> $1::vector(%1$s)
+        limit $3
+      ) as matches
+      where matches.similarity > $4
+      order by matches.similarity desc
+    $query$,
+    vector_dims(query_embedding),
+    embedding_model
+  )
+  using query_embedding, filter_conversation_id, match_count, match_threshold;
+end;
+$$;
+
+-- The exact nearest sections, for measuring the recall of `match_page_sections`. Without the
+-- cast to a fixed size the HNSW indexes don't apply, so every section is compared
+create or replace function exact_match_page_sections(embedding vector, embedding_model text, match_count int, min_content_length int)
+returns table (id bigint, similarity float)
+language plpgsql
+as $$
+#variable_conflict use_variable
+begin
+  return query
+  select
+    nods_page_section.id,
+    (nods_page_section.embedding <#> embedding) * -1 as similarity
+  from nods_page_section
+  where nods_page_section.embedding_model = embedding_model
+  and nods_page_section.embedding_dimensions = vector_dims(embedding)
+  and length(nods_page_section.content) >= min_content_length
+  order by nods_page_section.embedding <#> embedding
+  limit match_count;
+end;
+$$;
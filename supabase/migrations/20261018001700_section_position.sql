@@ -0,0 +1,75 @@
+-- Store the index of every section within its page. Section ids only follow the document
+-- while a page is embedded at once: sections kept by a re-ingestion keep their ids while the
+-- ones around them are replaced, so ids no longer give the order of the sections.
+alter table "public"."nods_page_section" add column position int not null default 0;
+alter table "public"."nods_page_section_staging" add column position int not null default 0;
+
+-- Until their page is ingested again, the best guess for stored sections is the order of
+-- their ids
+update nods_page_section
+set position = numbered.position
+from (
+  select
+    nods_page_section.id,
+    (row_number() over (partition by nods_page_section.page_id, nods_page_section.embedding_model order by nods_page_section.id) - 1)::int as position
+  from nods_page_section
+) as numbered
+where nods_page_section.id = numbered.id;
+
+-- Kept sections can move within the page, so their new positions are passed alongside
+-- their ids
+drop function swap_page_sections(uuid, bigint, bigint[], text, text, int);
+
+create or replace function swap_page_sections(ingest_id uuid, target_page_id bigint, keep_section_ids bigint[], keep_section_positions int[], new_checksum text, target_model text, target_dimensions int)
+returns int
+language plpgsql
+as $$
+#variable_conflict use_variable
+declare
+  inserted_count int;
+begin
+  delete from nods_page_section
+  where nods_page_section.page_id = target_page_id
+  and nods_page_section.embedding_model = target_model
+  and (target_dimensions is null or nods_page_section.embedding_dimensions = target_dimensions)
+  and not (nods_page_section.id = any(keep_section_ids));
+
+  update nods_page_section
+  set position = kept.position
+  from unnest(keep_section_ids, keep_section_positions) as kept(id, position)
+  where nods_page_section.id = kept.id
+  and nods_page_section.page_id = target_page_id;
+
+  insert into nods_page_section (page_id, content, token_count, embedding, embedding_model, embedding_dimensions, slug, heading, heading_path, checksum, chunk_index, position)
+  select
+    staging.page_id,
+    staging.content,
+    staging.token_count,
+    staging.embedding,
+    staging.embedding_model,
+    staging.embedding_dimensions,
+    staging.slug,
+    staging.heading,
+    staging.heading_path,
+    staging.checksum,
+    staging.chunk_index,
+    staging.position
+  from nods_page_section_staging as staging
+  where staging.ingest_id = ingest_id
+  and staging.page_id = target_page_id
+  order by staging.position;
+
+  get diagnostics inserted_count = row_count;
+
+  -- Clean up this run along with anything left behind by runs that never finished
+  delete from nods_page_section_staging as staging
+  where staging.ingest_id = ingest_id
+  or (staging.page_id = target_page_id and staging.created_at < now() - interval '1 day');
+
+  update nods_page
+  set checksum = new_checksum
+  where nods_page.id = target_page_id;
+
+  return inserted_count;
+end;
+$$;
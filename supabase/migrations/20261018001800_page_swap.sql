@@ -0,0 +1,85 @@
+-- Write the page itself in the same transaction as its sections. Before, the page row was
+-- upserted ahead of embedding, so a failed ingestion left the new meta and content next to
+-- the old sections, or an empty page when it was the first one.
+--
+-- Staged sections of a page that doesn't exist yet have no page id, they are found by their
+-- ingestion id alone
+alter table "public"."nods_page_section_staging" alter column page_id drop not null;
+
+drop function swap_page_sections(uuid, bigint, bigint[], int[], text, text, int);
+
+create or replace function swap_page_sections(
+  ingest_id uuid,
+  target_path text,
+  page_type text,
+  page_source text,
+  page_meta jsonb,
+  page_content text,
+  page_parent_id bigint,
+  keep_section_ids bigint[],
+  keep_section_positions int[],
+  new_checksum text,
+  target_model text,
+  target_dimensions int
+)
+returns nods_page
+language plpgsql
+as $$
+#variable_conflict use_variable
+declare
+  page nods_page;
+begin
+  -- Pages ingested without meta keep the meta they have
+  insert into nods_page (path, type, source, meta, content, parent_page_id, checksum)
+  values (target_path, page_type, page_source, page_meta, page_content, page_parent_id, new_checksum)
+  on conflict (path) do update
+  set
+    type = excluded.type,
+    source = excluded.source,
+    meta = coalesce(excluded.meta, nods_page.meta),
+    content = excluded.content,
+    parent_page_id = excluded.parent_page_id,
+    checksum = excluded.checksum
+  returning * into page;
+
+  delete from nods_page_section
+  where nods_page_section.page_id = page.id
+  and nods_page_section.embedding_model = target_model
+  and (target_dimensions is null or nods_page_section.embedding_dimensions = target_dimensions)
+  and not (nods_page_section.id = any(keep_section_ids));
+
+  update nods_page_section
+  set position = kept.position
+  from unnest(keep_section_ids, keep_section_positions) as kept(id, position)
+  where nods_page_section.id = kept.id
+  and nods_page_section.page_id = page.id;
+
+  insert into nods_page_section (page_id, content, token_count, embedding, embedding_model, embedding_dimensions, slug, heading, heading_path, checksum, chunk_index, position)
+  select
+    page.id,
+    staging.content,
+    staging.token_count,
+    staging.embedding,
+    staging.embedding_model,
+    staging.embedding_dimensions,
+    staging.slug,
+    staging.heading,
+    staging.heading_path,
+    staging.checksum,
+    staging.chunk_index,
+    staging.position
+  from nods_page_section_staging as staging
+  where staging.ingest_id = ingest_id
+  order by staging.position;
+
+  -- Clean up this run along with anything left behind by runs that never finished
+  delete from nods_page_section_staging as staging
+  where staging.ingest_id = ingest_id
+  or (
+    (staging.page_id = page.id or staging.page_id is null)
+    and staging.created_at < now() - interval '1 day'
+  );
+
+  return page;
+end;
+$$;
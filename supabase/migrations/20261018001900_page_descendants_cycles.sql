@@ -0,0 +1,20 @@
+-- A page that is its own ancestor, e.g. its own parent, made the recursion run forever.
+-- `union` drops rows that were already visited, so the walk stops at a cycle
+create or replace function get_page_descendants(page_id bigint)
+returns table (id bigint, parent_page_id bigint, path text, meta jsonb)
+language sql
+as $$
+  with recursive tree as (
+    select nods_page.id, nods_page.parent_page_id, nods_page.path, nods_page.meta
+    from nods_page
+    where nods_page.id = page_id
+
+    union
+
+    select child.id, child.parent_page_id, child.path, child.meta
+      from nods_page as child
+      join tree on child.parent_page_id = tree.id
+  )
+  select id, parent_page_id, path, meta
+  from tree;
+$$;